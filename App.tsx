@@ -1,7 +1,11 @@
 /**
  * Text Animation Lab
- * Showcase of 12 text animations with play controls, favorites,
- * custom text preview, punctuation delay, and drag-to-reorder.
+ * Showcase of 12 text animations with play controls, pause + scrubbing,
+ * favorites, multi-line custom text preview, punctuation delay, playback speed,
+ * exit transitions, looping, markup and RTL / CJK / Thai samples, long-text
+ * mode for paragraphs, drag-to-reorder, a composer for custom animations,
+ * presets shared as JSON or textanimationlab:// links, and a frame-time
+ * benchmark.
  */
 
 import React, { useState, useCallback, useEffect, useRef, useMemo } from 'react';
@@ -12,38 +16,86 @@ import {
   StyleSheet,
   TouchableOpacity,
   StatusBar,
+  Modal,
+  ScrollView,
+  Share,
+  Platform,
+  Linking,
+  AccessibilityInfo,
 } from 'react-native';
 import { SafeAreaProvider, useSafeAreaInsets } from 'react-native-safe-area-context';
-import { X, Play, Heart, Check } from 'lucide-react-native';
+import {
+  X,
+  Play,
+  Pause,
+  Repeat,
+  Heart,
+  Check,
+  Plus,
+  Trash2,
+  Pencil,
+  Code,
+  Share2,
+  Import,
+  Gauge,
+} from 'lucide-react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import Animated, {
   useSharedValue,
   useAnimatedStyle,
   useAnimatedScrollHandler,
+  useDerivedValue,
+  useFrameCallback,
   withTiming,
+  withDelay,
+  withRepeat,
+  withSequence,
+  cancelAnimation,
   interpolate,
+  interpolateColor,
   Easing,
-  runOnJS,
 } from 'react-native-reanimated';
+import type { FrameInfo, SharedValue } from 'react-native-reanimated';
 import DraggableFlatList, {
   ScaleDecorator,
   RenderItemParams,
 } from 'react-native-draggable-flatlist';
-import { GestureHandlerRootView } from 'react-native-gesture-handler';
+import { Gesture, GestureDetector, GestureHandlerRootView } from 'react-native-gesture-handler';
+import type { FlatList } from 'react-native-gesture-handler';
 
 // Animations
-import { SoftFade } from './animations/softFade';
-import { LineSlide } from './animations/lineSlide';
-import { ScaleFade } from './animations/scaleFade';
-import { BlurReveal } from './animations/blurReveal';
-import { SplitTiming } from './animations/splitTiming';
-import { SkewPop } from './animations/skewPop';
-import { WordShimmer } from './animations/wordShimmer';
-import { LetterShimmer } from './animations/letterShimmer';
-import { SlamIn } from './animations/slamIn';
-import { RapidFire } from './animations/rapidFire';
-import { ElasticSnap } from './animations/elasticSnap';
-import { Typewriter } from './animations/typewriter';
+import { SoftFade, getSoftFadeDuration } from './animations/softFade';
+import { LineSlide, getLineSlideDuration } from './animations/lineSlide';
+import { ScaleFade, getScaleFadeDuration } from './animations/scaleFade';
+import { BlurReveal, getBlurRevealDuration } from './animations/blurReveal';
+import { SplitTiming, getSplitTimingDuration } from './animations/splitTiming';
+import { SkewPop, getSkewPopDuration } from './animations/skewPop';
+import { WordShimmer, getWordShimmerDuration } from './animations/wordShimmer';
+import { LetterShimmer, getLetterShimmerDuration } from './animations/letterShimmer';
+import { SlamIn, getSlamInDuration } from './animations/slamIn';
+import { RapidFire, getRapidFireDuration } from './animations/rapidFire';
+import { ElasticSnap, getElasticSnapDuration } from './animations/elasticSnap';
+import { Typewriter, getTypewriterDuration } from './animations/typewriter';
+import { usePlaybackController } from './animations/core/playback';
+import { SpecAnimation } from './animations/core/specAnimation';
+import { getSpecDuration } from './animations/core/spec';
+import type { AnimationSpec, ColorSpec } from './animations/core/spec';
+import { specSource } from './animations/core/specSource';
+import type { SourceSpec } from './animations/core/specSource';
+import type { EasingPreset } from './animations/core/presets';
+import type { LongTextOptions } from './animations/core/longText';
+import type { StaggerBy } from './animations/core/timeline';
+import { detectDirection } from './animations/core/direction';
+import { accessibilityLabelFor } from './animations/core/accessibility';
+import { useReduceMotion } from './animations/core/reducedMotion';
+import { TextAnimationThemeProvider } from './animations/core/theme';
+import type { TextAnimationTheme } from './animations/core/theme';
+import type {
+  DurationOptions,
+  ExitMode,
+  PlaybackController,
+  TextAnimationProps,
+} from './animations/core/types';
 
 // ============================================================================
 // TYPES
@@ -53,12 +105,89 @@ interface AnimationEntry {
   id: string;
   label: string;
   defaultText: string;
-  Component: React.ComponentType<{
-    text: string;
-    isPlaying: boolean;
-    punctuationDelay?: boolean;
-  }>;
-  autoHideMs?: number;
+  Component: React.ComponentType<TextAnimationProps>;
+  getDuration: (text: string, options?: DurationOptions) => number;
+  /** How long the preview stays visible after the animation completes. */
+  holdMs?: number;
+  /** Set on entries made in the composer, so they can be edited. */
+  custom?: CustomAnimation;
+}
+
+type ComposerProperty = 'opacity' | 'translateX' | 'translateY' | 'scale' | 'skewX' | 'color';
+
+interface ComposerRange {
+  from: number | ColorSpec;
+  to: number | ColorSpec;
+}
+
+/** An animation made in the composer; stored as JSON and turned into a spec. */
+interface CustomAnimation {
+  id: string;
+  name: string;
+  text: string;
+  unit: 'char' | 'word';
+  staggerMs: number;
+  durationMs: number;
+  easing: EasingPreset;
+  punctuationDelay: boolean;
+  /** Animated properties; numbers, or colors for `color`. */
+  properties: Partial<Record<ComposerProperty, ComposerRange>>;
+}
+
+/** A showcase entry and its settings, shared as JSON or a deep link. */
+interface SharedPreset {
+  version: number;
+  /** Id of a built-in or custom animation. */
+  animation: string;
+  text?: string;
+  punctuationDelay?: boolean;
+  speed?: number;
+  exit?: ExitMode;
+  /** The composer definition, when `animation` is a custom animation. */
+  custom?: CustomAnimation;
+}
+
+type PresetResult =
+  | { ok: true; preset: SharedPreset }
+  | { ok: false; errors: string[] };
+
+interface ComposerPropertyOption {
+  property: ComposerProperty;
+  label: string;
+  from: number | ColorSpec;
+  to: number | ColorSpec;
+  /** Stepper increment and range; unset for colors. */
+  step?: number;
+  min?: number;
+  max?: number;
+}
+
+/** Long-text mode of the previews: off, or what the stagger steps over. */
+type LongTextMode = 'off' | StaggerBy;
+
+/** `legacy`: the original per-glyph renderer; `single`: one clock per animation. */
+type BenchmarkRenderer = 'legacy' | 'single';
+
+interface BenchmarkRun {
+  renderer: BenchmarkRenderer;
+  /** Renderers still queued after this one. */
+  remaining: BenchmarkRenderer[];
+  startedAt: number;
+}
+
+interface BenchmarkResult {
+  id: number;
+  renderer: BenchmarkRenderer;
+  chars: number;
+  /** From pressing Run to the first layout of the animation. */
+  mountMs: number;
+  /** UI-thread frames, where the animations are evaluated. */
+  frames: number;
+  averageFrameMs: number;
+  worstFrameMs: number;
+  droppedFrames: number;
+  /** Longest gap between JS-thread frames. */
+  worstJsFrameMs: number;
 }
 
 // ============================================================================
@@ -80,26 +209,36 @@ const THEME = {
   textSubtle: '#BBBBBB',
   textPlaceholder: '#DDDDDD',
   heartActive: '#FC2D50',
+  accent: '#FC2D50',
   clearButtonBg: '#666666',
 } as const;
 
+/** Defaults for every preview, derived from THEME. */
+const ANIMATION_THEME: TextAnimationTheme = {
+  textStyle: { color: THEME.textPrimary },
+  accentColor: THEME.accent,
+};
+
 // ============================================================================
 // ANIMATIONS REGISTRY
 // ============================================================================
 
+// Shimmer sweeps keep running after the entrance, so give them time to show.
+const SHIMMER_HOLD_MS = 2500;
+
 const ANIMATIONS: AnimationEntry[] = [
-  { id: 'soft-fade', label: 'Soft Fade', defaultText: 'Words pop into place', Component: SoftFade },
-  { id: 'line-slide', label: 'Line Slide', defaultText: 'Elegant motion creates focus', Component: LineSlide },
-  { id: 'scale-fade', label: 'Scale Fade', defaultText: 'Grow from nothing gently', Component: ScaleFade },
-  { id: 'blur-reveal', label: 'Blur Reveal', defaultText: 'Clarity unfolds with patience', Component: BlurReveal },
-  { id: 'split-timing', label: 'Split Timing', defaultText: 'Rhythm defines how we read', Component: SplitTiming },
-  { id: 'word-emphasis', label: 'Skew Pop', defaultText: 'Make the important stand', Component: SkewPop },
-  { id: 'shimmer', label: 'Word Shimmer', defaultText: 'Light sweeps across surface', Component: WordShimmer },
-  { id: 'shimmer-letters', label: 'Letter Shimmer', defaultText: 'Light sweeps across surface', Component: LetterShimmer },
-  { id: 'slam-in', label: 'Slam In', defaultText: 'Crash through the silence', Component: SlamIn },
-  { id: 'rapid-fire', label: 'Rapid Fire', defaultText: 'Speed reshapes perception', Component: RapidFire },
-  { id: 'elastic-snap', label: 'Elastic Snap', defaultText: 'Bounce into the scene', Component: ElasticSnap },
-  { id: 'typewriter', label: 'Typewriter', defaultText: 'Every letter has weight', Component: Typewriter },
+  { id: 'soft-fade', label: 'Soft Fade', defaultText: 'Words pop into place', Component: SoftFade, getDuration: getSoftFadeDuration },
+  { id: 'line-slide', label: 'Line Slide', defaultText: 'Elegant motion creates focus', Component: LineSlide, getDuration: getLineSlideDuration },
+  { id: 'scale-fade', label: 'Scale Fade', defaultText: 'Grow from nothing gently', Component: ScaleFade, getDuration: getScaleFadeDuration },
+  { id: 'blur-reveal', label: 'Blur Reveal', defaultText: 'Clarity unfolds with patience', Component: BlurReveal, getDuration: getBlurRevealDuration },
+  { id: 'split-timing', label: 'Split Timing', defaultText: 'Rhythm defines how we read', Component: SplitTiming, getDuration: getSplitTimingDuration },
+  { id: 'word-emphasis', label: 'Skew Pop', defaultText: 'Make the important stand', Component: SkewPop, getDuration: getSkewPopDuration },
+  { id: 'shimmer', label: 'Word Shimmer', defaultText: 'Light sweeps across surface', Component: WordShimmer, getDuration: getWordShimmerDuration, holdMs: SHIMMER_HOLD_MS },
+  { id: 'shimmer-letters', label: 'Letter Shimmer', defaultText: 'Light sweeps across surface', Component: LetterShimmer, getDuration: getLetterShimmerDuration, holdMs: SHIMMER_HOLD_MS },
+  { id: 'slam-in', label: 'Slam In', defaultText: 'Crash through the silence', Component: SlamIn, getDuration: getSlamInDuration },
+  { id: 'rapid-fire', label: 'Rapid Fire', defaultText: 'Speed reshapes perception', Component: RapidFire, getDuration: getRapidFireDuration },
+  { id: 'elastic-snap', label: 'Elastic Snap', defaultText: 'Bounce into the scene', Component: ElasticSnap, getDuration: getElasticSnapDuration },
+  { id: 'typewriter', label: 'Typewriter', defaultText: 'Every letter has weight', Component: Typewriter, getDuration: getTypewriterDuration },
 ];
 
 // ============================================================================
@@ -108,8 +247,370 @@ const ANIMATIONS: AnimationEntry[] = [
 
 const STORAGE_KEY = '@animation_lab_likes';
 const ORDER_STORAGE_KEY = '@animation_lab_order';
-const AUTO_HIDE_MS = 4000;
-const MAX_CHARS = 26;
+const CUSTOM_STORAGE_KEY = '@animation_lab_custom';
+const PRESET_VERSION = 1;
+/** Links look like `textanimationlab://animation/slam-in?speed=0.5`. */
+const LINK_PREFIX = 'textanimationlab://animation/';
+const HOLD_AFTER_COMPLETE_MS = 1200;
+const MAX_CHARS = 600;
+const SPEED_OPTIONS = [0.1, 0.25, 0.5, 1, 1.5, 2];
+const EXIT_OPTIONS: ExitMode[] = ['custom', 'reverse', 'instant'];
+const LONG_TEXT_OPTIONS: LongTextMode[] = ['off', 'unit', 'sentence', 'line'];
+const PARAGRAPH_TEXT = [
+  'Motion should serve the words, not compete with them. A headline can take its time, ' +
+    'but a paragraph that trickles in letter by letter keeps the reader waiting.',
+  'Long-text mode caps the entrance, staggers by sentence or line, and settles ' +
+    'whatever is off screen at once.',
+].join('\n\n');
+/**
+ * Sample copy that needs special handling (RTL, no spaces, markup, length).
+ * `longText` is the mode a sample switches on when long-text mode is off.
+ */
+const SAMPLE_TEXTS: { label: string; text: string; longText?: StaggerBy }[] = [
+  { label: 'off', text: '' },
+  { label: 'Paragraph', text: PARAGRAPH_TEXT, longText: 'sentence' },
+  { label: 'Markup', text: '{accent}Sale{/accent} ends *today*' },
+  { label: 'Hebrew', text: 'התנועה יוצרת מיקוד' },
+  { label: 'Japanese', text: '動きが視線を導く' },
+  { label: 'Chinese', text: '动态创造焦点' },
+  { label: 'Thai', text: 'การเคลื่อนไหวสร้างจุดสนใจ' },
+];
+
+// ============================================================================
+// CUSTOM ANIMATIONS
+// ============================================================================
+
+/** Properties the composer offers, in the order their transforms apply. */
+const COMPOSER_PROPERTIES: ComposerPropertyOption[] = [
+  { property: 'opacity', label: 'Opacity', from: 0, to: 1, step: 0.1, min: 0, max: 1 },
+  { property: 'translateX', label: 'Move X', from: 24, to: 0, step: 4, min: -120, max: 120 },
+  { property: 'translateY', label: 'Move Y', from: 12, to: 0, step: 4, min: -120, max: 120 },
+  { property: 'scale', label: 'Scale', from: 0.6, to: 1, step: 0.1, min: 0, max: 3 },
+  { property: 'skewX', label: 'Skew', from: -12, to: 0, step: 2, min: -45, max: 45 },
+  { property: 'color', label: 'Color', from: { token: 'accent' }, to: { token: 'text' } },
+];
+
+const COMPOSER_EASINGS: EasingPreset[] = [
+  'gentle',
+  'smooth',
+  'brisk',
+  'snappy',
+  'overshoot',
+  'elastic',
+  'standard',
+  'emphasized',
+  'decelerate',
+];
+
+const COLOR_OPTIONS: { label: string; value: ColorSpec; swatch: string }[] = [
+  { label: 'Text', value: { token: 'text' }, swatch: THEME.textPrimary },
+  { label: 'Accent', value: { token: 'accent' }, swatch: THEME.accent },
+  { label: 'Faint', value: { token: 'text', alpha: 0.15 }, swatch: THEME.textPlaceholder },
+  { label: 'Blue', value: '#0A84FF', swatch: '#0A84FF' },
+  { label: 'Green', value: '#30D158', swatch: '#30D158' },
+  { label: 'Orange', value: '#FF9F0A', swatch: '#FF9F0A' },
+];
+
+/** Header line of files generated from the composer. */
+const CUSTOM_SOURCE_DESCRIPTION = 'Made in the Text Animation Lab composer.';
+const CODE_FONT = Platform.select({ ios: 'Menlo', default: 'monospace' });
+
+const DURATION_RANGE = { step: 50, min: 50, max: 2000 };
+const STAGGER_RANGE = { step: 10, min: 0, max: 500 };
+
+function newCustomAnimation(): CustomAnimation {
+  return {
+    id: `custom-${Date.now().toString(36)}`,
+    name: 'My animation',
+    text: 'Designed in the lab',
+    unit: 'word',
+    staggerMs: 80,
+    durationMs: 400,
+    easing: 'smooth',
+    punctuationDelay: true,
+    properties: {
+      opacity: { from: 0, to: 1 },
+      translateY: { from: 12, to: 0 },
+    },
+  };
+}
+
+/** The spec a composer animation renders with. Its exit fades units out quickly. */
+function customSpec(custom: CustomAnimation): AnimationSpec & SourceSpec {
+  return {
+    name: custom.name,
+    unit: custom.unit,
+    staggerMs: custom.staggerMs,
+    punctuationDelay: custom.punctuationDelay,
+    tracks: COMPOSER_PROPERTIES.flatMap(({ property }) => {
+      const range = custom.properties[property];
+      if (!range) return [];
+      const mirror = property === 'translateX' || property === 'skewX';
+      return [{
+        type: 'tween' as const,
+        property,
+        ...(mirror && { mirror }),
+        from: range.from,
+        to: range.to,
+        durationMs: custom.durationMs,
+        easing: custom.easing,
+      }];
+    }),
+    exit: {
+      staggerMs: Math.round(custom.staggerMs / 2),
+      durationMs: 250,
+      easing: 'gentleIn',
+    },
+  };
+}
+
+// Entries are cached per stored object so their Component keeps its identity
+// across renders; editing replaces the object and remounts the preview.
+const customEntryCache = new WeakMap<CustomAnimation, AnimationEntry>();
+
+function customEntry(custom: CustomAnimation): AnimationEntry {
+  const cached = customEntryCache.get(custom);
+  if (cached) return cached;
+  const spec = customSpec(custom);
+  const entry: AnimationEntry = {
+    id: custom.id,
+    label: custom.name,
+    defaultText: custom.text,
+    Component: (props) => <SpecAnimation {...props} spec={spec} />,
+    getDuration: (text, options) => getSpecDuration(spec, text, options),
+    custom,
+  };
+  customEntryCache.set(custom, entry);
+  return entry;
+}
+
+/** `entries` sorted by the saved `order`; entries missing from it go last. */
+function orderEntries(entries: AnimationEntry[], order: string[]): AnimationEntry[] {
+  const rank = new Map(order.map((id, i) => [id, i]));
+  return entries
+    .map((entry, i) => ({ entry, key: rank.get(entry.id) ?? order.length + i }))
+    .sort((a, b) => a.key - b.key)
+    .map(({ entry }) => entry);
+}
+
+// ============================================================================
+// SHARING
+// ============================================================================
+
+function presetJson(preset: SharedPreset): string {
+  return JSON.stringify(preset, null, 2);
+}
+
+function presetLink({ animation, custom, ...settings }: SharedPreset): string {
+  const params = Object.entries(settings)
+    .filter(([key, value]) => key !== 'version' && value !== undefined)
+    .map(([key, value]) => `${key}=${encodeURIComponent(String(value))}`);
+  if (custom) params.push(`custom=${encodeURIComponent(JSON.stringify(custom))}`);
+  const query = params.length > 0 ? `?${params.join('&')}` : '';
+  return `${LINK_PREFIX}${encodeURIComponent(animation)}${query}`;
+}
+
+/** The raw preset in a link; values are still unchecked. */
+function parseLink(url: string, errors: string[]): Record<string, unknown> {
+  const [path, query = ''] = url.slice(LINK_PREFIX.length).split('?');
+  const raw: Record<string, unknown> = {
+    version: PRESET_VERSION,
+    animation: decodeURIComponent(path.replace(/\/$/, '')),
+  };
+  for (const pair of query.split('&').filter(Boolean)) {
+    const [key, encoded = ''] = pair.split('=');
+    const value = decodeURIComponent(encoded.replace(/\+/g, ' '));
+    if (key === 'speed') {
+      raw.speed = Number(value);
+    } else if (key === 'punctuationDelay') {
+      // Anything else stays a string, for validation to reject.
+      raw.punctuationDelay = value === 'true' || value === 'false' ? value === 'true' : value;
+    } else if (key === 'custom') {
+      try {
+        raw.custom = JSON.parse(value);
+      } catch {
+        errors.push('"custom" in the link is not valid JSON.');
+      }
+    } else {
+      raw[key] = value;
+    }
+  }
+  return raw;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkRange(
+  errors: string[],
+  field: string,
+  value: unknown,
+  { min, max }: { min: number; max: number },
+): void {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    errors.push(`"${field}" must be a number.`);
+  } else if (value < min || value > max) {
+    errors.push(`"${field}" is ${value}; it must be between ${min} and ${max}.`);
+  }
+}
+
+function checkOneOf(errors: string[], field: string, value: unknown, options: readonly string[]) {
+  if (typeof value !== 'string' || !options.includes(value)) {
+    errors.push(`"${field}" is ${JSON.stringify(value)}; expected one of ${options.join(', ')}.`);
+  }
+}
+
+function checkText(errors: string[], field: string, value: unknown): void {
+  if (typeof value !== 'string') errors.push(`"${field}" must be a string.`);
+  else if (value.length > MAX_CHARS) {
+    errors.push(`"${field}" is ${value.length} characters; the limit is ${MAX_CHARS}.`);
+  }
+}
+
+function checkColor(errors: string[], field: string, value: unknown): void {
+  if (typeof value === 'string' && /^#[0-9a-f]{6}([0-9a-f]{2})?$/i.test(value)) return;
+  if (isRecord(value) && (value.token === 'text' || value.token === 'accent')) {
+    if (value.alpha !== undefined) {
+      checkRange(errors, `${field}.alpha`, value.alpha, { min: 0, max: 1 });
+    }
+    return;
+  }
+  errors.push(`"${field}" must be a hex color such as "#0A84FF" or { "token": "text" }.`);
+}
+
+function checkCustom(errors: string[], custom: unknown, animation: unknown): void {
+  if (!isRecord(custom)) {
+    errors.push('"custom" must be an object.');
+    return;
+  }
+  if (custom.id !== animation) errors.push('"custom.id" must match "animation".');
+  if (typeof custom.name !== 'string' || custom.name.trim() === '') {
+    errors.push('"custom.name" must be a non-empty string.');
+  }
+  checkText(errors, 'custom.text', custom.text);
+  checkOneOf(errors, 'custom.unit', custom.unit, ['char', 'word']);
+  checkRange(errors, 'custom.staggerMs', custom.staggerMs, STAGGER_RANGE);
+  checkRange(errors, 'custom.durationMs', custom.durationMs, DURATION_RANGE);
+  checkOneOf(errors, 'custom.easing', custom.easing, COMPOSER_EASINGS);
+  if (typeof custom.punctuationDelay !== 'boolean') {
+    errors.push('"custom.punctuationDelay" must be true or false.');
+  }
+  if (!isRecord(custom.properties) || Object.keys(custom.properties).length === 0) {
+    errors.push('"custom.properties" must animate at least one property.');
+    return;
+  }
+  for (const [property, range] of Object.entries(custom.properties)) {
+    const field = `custom.properties.${property}`;
+    const option = COMPOSER_PROPERTIES.find(o => o.property === property);
+    if (!option) {
+      const known = COMPOSER_PROPERTIES.map(o => o.property).join(', ');
+      errors.push(`Unknown property "${property}"; expected one of ${known}.`);
+    } else if (!isRecord(range)) {
+      errors.push(`"${field}" must be { "from": …, "to": … }.`);
+    } else {
+      for (const end of ['from', 'to'] as const) {
+        if (option.min === undefined || option.max === undefined) {
+          checkColor(errors, `${field}.${end}`, range[end]);
+        } else {
+          checkRange(errors, `${field}.${end}`, range[end], { min: option.min, max: option.max });
+        }
+      }
+    }
+  }
+}
+
+/** Copies a checked range end, leaving out unknown keys. */
+function pickRangeEnd(value: unknown): number | ColorSpec {
+  if (typeof value === 'number' || typeof value === 'string') return value;
+  const { token, alpha } = value as { token: 'text' | 'accent'; alpha?: number };
+  return alpha === undefined ? { token } : { token, alpha };
+}
+
+/** Builds the composer definition from a checked `custom`, leaving out unknown keys. */
+function pickCustom(custom: Record<string, unknown>): CustomAnimation {
+  const properties: CustomAnimation['properties'] = {};
+  for (const [property, range] of Object.entries(custom.properties as object)) {
+    const { from, to } = range as Record<string, unknown>;
+    properties[property as ComposerProperty] = { from: pickRangeEnd(from), to: pickRangeEnd(to) };
+  }
+  return {
+    id: custom.id as string,
+    name: custom.name as string,
+    text: custom.text as string,
+    unit: custom.unit as CustomAnimation['unit'],
+    staggerMs: custom.staggerMs as number,
+    durationMs: custom.durationMs as number,
+    easing: custom.easing as EasingPreset,
+    punctuationDelay: custom.punctuationDelay as boolean,
+    properties,
+  };
+}
+
+/**
+ * Reads a preset from JSON or a `textanimationlab://` link and checks every
+ * field, collecting all problems rather than stopping at the first.
+ */
+function parsePreset(input: string, knownIds: string[]): PresetResult {
+  const errors: string[] = [];
+  const trimmed = input.trim();
+  let raw: unknown;
+  if (trimmed.startsWith(LINK_PREFIX)) {
+    try {
+      raw = parseLink(trimmed, errors);
+    } catch {
+      return { ok: false, errors: ['The link is malformed (bad % escape).'] };
+    }
+  } else if (trimmed.startsWith('textanimationlab://')) {
+    return { ok: false, errors: [`Links must start with ${LINK_PREFIX}<animation id>.`] };
+  } else {
+    try {
+      raw = JSON.parse(trimmed);
+    } catch (e) {
+      return { ok: false, errors: [`Not valid JSON: ${(e as Error).message}`] };
+    }
+  }
+  if (!isRecord(raw)) return { ok: false, errors: ['Expected a JSON object.'] };
+
+  if (raw.version === undefined) {
+    errors.push(`Missing "version"; expected ${PRESET_VERSION}.`);
+  } else if (raw.version !== PRESET_VERSION) {
+    const version = JSON.stringify(raw.version);
+    errors.push(`Unsupported "version" ${version}; expected ${PRESET_VERSION}.`);
+  }
+  if (typeof raw.animation !== 'string' || raw.animation === '') {
+    errors.push('Missing "animation" id.');
+  } else if (raw.custom === undefined && !knownIds.includes(raw.animation)) {
+    errors.push(`Unknown animation "${raw.animation}". Known ids: ${knownIds.join(', ')}.`);
+  }
+  if (raw.text !== undefined) checkText(errors, 'text', raw.text);
+  if (raw.punctuationDelay !== undefined && typeof raw.punctuationDelay !== 'boolean') {
+    errors.push('"punctuationDelay" must be true or false.');
+  }
+  if (raw.speed !== undefined) {
+    checkRange(errors, 'speed', raw.speed, {
+      min: Math.min(...SPEED_OPTIONS),
+      max: Math.max(...SPEED_OPTIONS),
+    });
+  }
+  if (raw.exit !== undefined) checkOneOf(errors, 'exit', raw.exit, EXIT_OPTIONS);
+  if (raw.custom !== undefined) {
+    if (ANIMATIONS.some(a => a.id === raw.animation)) {
+      errors.push(`"custom" can't replace the built-in animation "${raw.animation}".`);
+    }
+    checkCustom(errors, raw.custom, raw.animation);
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+
+  const preset: SharedPreset = { version: PRESET_VERSION, animation: raw.animation as string };
+  if (raw.text !== undefined) preset.text = raw.text as string;
+  if (raw.punctuationDelay !== undefined) preset.punctuationDelay = raw.punctuationDelay as boolean;
+  if (raw.speed !== undefined) preset.speed = raw.speed as number;
+  if (raw.exit !== undefined) preset.exit = raw.exit as ExitMode;
+  if (raw.custom !== undefined) preset.custom = pickCustom(raw.custom as Record<string, unknown>);
+  return { ok: true, preset };
+}
 
 // ============================================================================
 // STATIC COMPONENTS
@@ -119,6 +620,56 @@ const ItemSeparator = React.memo(() => (
   <View style={styles.separator} />
 ));
 
+// ============================================================================
+// SCRUBBER
+// ============================================================================
+
+interface ScrubberProps {
+  controller: PlaybackController;
+  onScrubStart: () => void;
+}
+
+const Scrubber = React.memo(function Scrubber({ controller, onScrubStart }: ScrubberProps) {
+  const trackWidth = useSharedValue(0);
+
+  const seekTo = useCallback((x: number) => {
+    if (trackWidth.value > 0) controller.seek(x / trackWidth.value);
+  }, [controller, trackWidth]);
+
+  const gesture = useMemo(() => (
+    Gesture.Pan()
+      .runOnJS(true)
+      .minDistance(0)
+      .onBegin((e) => {
+        onScrubStart();
+        seekTo(e.x);
+      })
+      .onUpdate((e) => seekTo(e.x))
+  ), [onScrubStart, seekTo]);
+
+  const fillStyle = useAnimatedStyle(() => ({
+    width: controller.progress.value * trackWidth.value,
+  }));
+
+  const thumbStyle = useAnimatedStyle(() => ({
+    transform: [{ translateX: controller.progress.value * trackWidth.value }],
+  }));
+
+  return (
+    <GestureDetector gesture={gesture}>
+      <View
+        style={styles.scrubber}
+        onLayout={(e) => { trackWidth.value = e.nativeEvent.layout.width; }}
+      >
+        <View style={styles.scrubberTrack}>
+          <Animated.View style={[styles.scrubberFill, fillStyle]} />
+        </View>
+        <Animated.View style={[styles.scrubberThumb, thumbStyle]} />
+      </View>
+    </GestureDetector>
+  );
+});
+
 // ============================================================================
 // ANIMATION SECTION (memoized)
 // ============================================================================
@@ -130,6 +681,17 @@ interface AnimationSectionProps {
   onToggleLike: (id: string) => void;
   customText: string;
   punctuationDelay: boolean;
+  speed: number;
+  exitMode: ExitMode;
+  longText: LongTextMode;
+  onEdit: (id: string) => void;
+  onShare: (id: string) => void;
+  /** Show what a screen reader announces for the preview. */
+  showAccessibility: boolean;
+  /** Play the reduced-motion variant instead of the animation. */
+  reduceMotion: boolean;
+  /** Changes each time an import asks this entry to play. */
+  playRequest: number;
   drag: () => void;
   isActive: boolean;
 }
@@ -141,15 +703,41 @@ const AnimationSection = React.memo(function AnimationSection({
   onToggleLike,
   customText,
   punctuationDelay,
+  speed,
+  exitMode,
+  longText,
+  onEdit,
+  onShare,
+  showAccessibility,
+  reduceMotion,
+  playRequest,
   drag,
   isActive,
 }: AnimationSectionProps) {
   const [isPlaying, setIsPlaying] = useState(false);
   const [showComponent, setShowComponent] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [isLooping, setIsLooping] = useState(false);
   const hideTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const fadeOpacity = useSharedValue(0);
-  const { Component, label, id } = entry;
+  const controller = usePlaybackController();
+  const { Component, label, id, getDuration } = entry;
   const text = customText || entry.defaultText;
+  const isRTL = detectDirection(text) === 'rtl';
+  const longTextOptions = useMemo<LongTextOptions | undefined>(
+    () => (longText === 'off' ? undefined : { staggerBy: longText }),
+    [longText],
+  );
+  // The same options the component gets below, so markup syntax isn't timed.
+  const durationSec = (
+    getDuration(text, {
+      punctuationDelay,
+      speed,
+      reduceMotion,
+      longText: longTextOptions,
+      markup: true,
+    }) / 1000
+  ).toFixed(1);
 
   const finishHide = useCallback(() => {
     setIsPlaying(false);
@@ -161,25 +749,55 @@ const AnimationSection = React.memo(function AnimationSection({
 
     setIsPlaying(false);
     setShowComponent(false);
+    setIsPaused(false);
+    controller.resume();
     fadeOpacity.value = 0;
 
     setTimeout(() => {
       setShowComponent(true);
       setIsPlaying(true);
       fadeOpacity.value = withTiming(1, { duration: 200 });
-
-      hideTimeoutRef.current = setTimeout(() => {
-        fadeOpacity.value = withTiming(
-          0,
-          { duration: 500, easing: Easing.in(Easing.quad) },
-          (finished) => {
-            if (finished) runOnJS(finishHide)();
-          },
-        );
-        hideTimeoutRef.current = null;
-      }, entry.autoHideMs ?? AUTO_HIDE_MS);
     }, 50);
-  }, [fadeOpacity, finishHide]);
+  }, [controller, fadeOpacity]);
+
+  const handleComplete = useCallback(() => {
+    // While paused the designer is inspecting frames; keep the preview up.
+    if (controller.paused.value) return;
+    hideTimeoutRef.current = setTimeout(() => {
+      // The component plays its exit, then onExitComplete unmounts it.
+      setIsPlaying(false);
+      hideTimeoutRef.current = null;
+    }, entry.holdMs ?? HOLD_AFTER_COMPLETE_MS);
+  }, [controller, entry.holdMs]);
+
+  const pause = useCallback(() => {
+    if (hideTimeoutRef.current) {
+      clearTimeout(hideTimeoutRef.current);
+      hideTimeoutRef.current = null;
+    }
+    controller.pause();
+    setIsPaused(true);
+  }, [controller]);
+
+  const handleTogglePause = useCallback(() => {
+    if (!isPaused) {
+      pause();
+      return;
+    }
+    controller.resume();
+    setIsPaused(false);
+    // Resuming at the end won't trigger onComplete again, so schedule the hide here.
+    if (isPlaying && !isLooping && controller.progress.value >= 1) handleComplete();
+  }, [isPaused, isPlaying, isLooping, pause, controller, handleComplete]);
+
+  const handleToggleLoop = useCallback(() => {
+    // A pending hide would cut the loop short; the clock loops after its own hold.
+    if (!isLooping && hideTimeoutRef.current) {
+      clearTimeout(hideTimeoutRef.current);
+      hideTimeoutRef.current = null;
+    }
+    setIsLooping(prev => !prev);
+  }, [isLooping]);
 
   useEffect(() => {
     return () => {
@@ -187,6 +805,10 @@ const AnimationSection = React.memo(function AnimationSection({
     };
   }, []);
 
+  useEffect(() => {
+    if (playRequest > 0) handlePlay();
+  }, [playRequest, handlePlay]);
+
   const fadeStyle = useAnimatedStyle(() => ({
     opacity: fadeOpacity.value,
   }));
@@ -199,7 +821,9 @@ const AnimationSection = React.memo(function AnimationSection({
         <View style={styles.topRow}>
           <Text style={styles.number}>{numberStr}</Text>
           <View style={styles.animationArea}>
-            <Text style={styles.placeholderText}>{text}</Text>
+            <Text style={[styles.placeholderText, isRTL && styles.placeholderTextRTL]}>
+              {text}
+            </Text>
             {showComponent && (
               <Animated.View
                 style={[
@@ -208,7 +832,21 @@ const AnimationSection = React.memo(function AnimationSection({
                   fadeStyle,
                 ]}
               >
-                <Component text={text} isPlaying={isPlaying} punctuationDelay={punctuationDelay} />
+                <Component
+                  text={text}
+                  isPlaying={isPlaying}
+                  punctuationDelay={punctuationDelay}
+                  speed={speed}
+                  onComplete={handleComplete}
+                  controller={controller}
+                  exit={exitMode}
+                  onExitComplete={finishHide}
+                  loop={isLooping}
+                  holdMs={entry.holdMs ?? HOLD_AFTER_COMPLETE_MS}
+                  reduceMotion={reduceMotion}
+                  longText={longTextOptions}
+                  markup
+                />
               </Animated.View>
             )}
           </View>
@@ -233,8 +871,45 @@ const AnimationSection = React.memo(function AnimationSection({
           >
             <Play size={12} color="#FFFFFF" fill="#FFFFFF" />
           </TouchableOpacity>
-          <Text style={styles.label}>{label}</Text>
+          {showComponent && (
+            <TouchableOpacity
+              style={[styles.pauseButton, isPaused && styles.pauseButtonActive]}
+              onPress={handleTogglePause}
+              activeOpacity={0.7}
+            >
+              {isPaused
+                ? <Play size={12} color={THEME.textPrimary} fill={THEME.textPrimary} />
+                : <Pause size={12} color={THEME.textPrimary} fill={THEME.textPrimary} />}
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            style={[styles.loopButton, isLooping && styles.loopButtonActive]}
+            onPress={handleToggleLoop}
+            activeOpacity={0.7}
+          >
+            <Repeat size={12} color={isLooping ? '#FFFFFF' : THEME.textPrimary} />
+          </TouchableOpacity>
+          {entry.custom ? (
+            <TouchableOpacity
+              style={styles.labelButton}
+              onPress={() => onEdit(id)}
+              activeOpacity={0.6}
+            >
+              <Text style={styles.label}>{label}</Text>
+              <Pencil size={11} color={THEME.textLabel} />
+            </TouchableOpacity>
+          ) : (
+            <Text style={styles.label}>{label}</Text>
+          )}
+          <Text style={styles.duration}>{durationSec}s</Text>
           <View style={{ flex: 1 }} />
+          <TouchableOpacity
+            style={styles.shareButton}
+            onPress={() => onShare(id)}
+            activeOpacity={0.5}
+          >
+            <Share2 size={14} color={THEME.textMuted} />
+          </TouchableOpacity>
           <TouchableOpacity
             onLongPress={drag}
             delayLongPress={150}
@@ -251,11 +926,742 @@ const AnimationSection = React.memo(function AnimationSection({
             </View>
           </TouchableOpacity>
         </View>
+
+        {showAccessibility && (
+          <Text style={styles.accessibilityCheck}>
+            Screen reader: “{accessibilityLabelFor(text, true)}”, text
+          </Text>
+        )}
+
+        {showComponent && (
+          <Scrubber controller={controller} onScrubStart={pause} />
+        )}
       </View>
     </ScaleDecorator>
   );
 });
 
+// ============================================================================
+// COMPOSER
+// ============================================================================
+
+interface StepperProps {
+  value: number;
+  step: number;
+  min: number;
+  max: number;
+  suffix?: string;
+  onChange: (value: number) => void;
+}
+
+function Stepper({ value, step, min, max, suffix = '', onChange }: StepperProps) {
+  // Rounded so repeated 0.1 steps don't drift (0.30000000000000004).
+  const nudge = (direction: number) => {
+    const next = Math.round((value + direction * step) * 100) / 100;
+    onChange(Math.min(max, Math.max(min, next)));
+  };
+  return (
+    <View style={styles.stepper}>
+      <TouchableOpacity
+        style={styles.stepperButton}
+        onPress={() => nudge(-1)}
+        disabled={value <= min}
+        activeOpacity={0.6}
+      >
+        <Text style={styles.stepperButtonText}>−</Text>
+      </TouchableOpacity>
+      <Text style={styles.stepperValue}>{value}{suffix}</Text>
+      <TouchableOpacity
+        style={styles.stepperButton}
+        onPress={() => nudge(1)}
+        disabled={value >= max}
+        activeOpacity={0.6}
+      >
+        <Text style={styles.stepperButtonText}>+</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+function colorOptionIndex(value: number | ColorSpec): number {
+  const key = JSON.stringify(value);
+  return Math.max(0, COLOR_OPTIONS.findIndex(o => JSON.stringify(o.value) === key));
+}
+
+interface ColorPickerProps {
+  value: number | ColorSpec;
+  onChange: (value: ColorSpec) => void;
+}
+
+function ColorPicker({ value, onChange }: ColorPickerProps) {
+  const index = colorOptionIndex(value);
+  const option = COLOR_OPTIONS[index];
+  return (
+    <TouchableOpacity
+      style={styles.colorPicker}
+      onPress={() => onChange(COLOR_OPTIONS[(index + 1) % COLOR_OPTIONS.length].value)}
+      activeOpacity={0.7}
+    >
+      <View style={[styles.colorSwatch, { backgroundColor: option.swatch }]} />
+      <Text style={styles.stepperValue}>{option.label}</Text>
+    </TouchableOpacity>
+  );
+}
+
+interface ComposerScreenProps {
+  /** The animation to edit; a new one when unset. */
+  initial?: CustomAnimation;
+  onSave: (custom: CustomAnimation) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+function ComposerScreen({ initial, onSave, onDelete, onClose }: ComposerScreenProps) {
+  const insets = useSafeAreaInsets();
+  const [draft, setDraft] = useState<CustomAnimation>(() => initial ?? newCustomAnimation());
+  const [replayKey, setReplayKey] = useState(0);
+  const [showCode, setShowCode] = useState(false);
+  const spec = useMemo(() => customSpec(draft), [draft]);
+  const generated = useMemo(
+    () => (showCode ? specSource(spec, { description: CUSTOM_SOURCE_DESCRIPTION }) : null),
+    [showCode, spec],
+  );
+  const canSave = draft.name.trim().length > 0 && spec.tracks.length > 0;
+
+  const update = useCallback((changes: Partial<CustomAnimation>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+  }, []);
+
+  const toggleProperty = useCallback((option: ComposerPropertyOption) => {
+    setDraft(prev => {
+      const properties = { ...prev.properties };
+      if (properties[option.property]) delete properties[option.property];
+      else properties[option.property] = { from: option.from, to: option.to };
+      return { ...prev, properties };
+    });
+  }, []);
+
+  const setRange = useCallback((property: ComposerProperty, range: Partial<ComposerRange>) => {
+    setDraft(prev => {
+      const current = prev.properties[property];
+      if (!current) return prev;
+      return { ...prev, properties: { ...prev.properties, [property]: { ...current, ...range } } };
+    });
+  }, []);
+
+  const renderValue = (
+    option: ComposerPropertyOption,
+    value: number | ColorSpec,
+    key: keyof ComposerRange,
+  ) => (typeof value === 'number' ? (
+    <Stepper
+      value={value}
+      step={option.step ?? 1}
+      min={option.min ?? -Infinity}
+      max={option.max ?? Infinity}
+      onChange={(v) => setRange(option.property, { [key]: v })}
+    />
+  ) : (
+    <ColorPicker value={value} onChange={(v) => setRange(option.property, { [key]: v })} />
+  ));
+
+  if (generated) {
+    return (
+      <View style={[styles.container, { paddingBottom: insets.bottom }]}>
+        <View style={styles.composerHeader}>
+          <TouchableOpacity
+            style={styles.composerClose}
+            onPress={() => setShowCode(false)}
+            activeOpacity={0.6}
+          >
+            <X size={16} color={THEME.textPrimary} />
+          </TouchableOpacity>
+          <Text style={styles.composerTitle}>{generated.fileName}</Text>
+          <TouchableOpacity
+            style={styles.composerSave}
+            onPress={() => Share.share({ title: generated.fileName, message: generated.source })}
+            activeOpacity={0.7}
+          >
+            <Share2 size={14} color="#FFFFFF" />
+          </TouchableOpacity>
+        </View>
+        <ScrollView contentContainerStyle={styles.composerContent}>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            <Text style={styles.codeText} selectable>{generated.source}</Text>
+          </ScrollView>
+        </ScrollView>
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.container, { paddingBottom: insets.bottom }]}>
+      <View style={styles.composerHeader}>
+        <TouchableOpacity style={styles.composerClose} onPress={onClose} activeOpacity={0.6}>
+          <X size={16} color={THEME.textPrimary} />
+        </TouchableOpacity>
+        <Text style={styles.composerTitle}>{initial ? 'Edit animation' : 'New animation'}</Text>
+        <TouchableOpacity
+          style={[styles.composerSave, !canSave && { opacity: 0.3 }]}
+          onPress={() => onSave({ ...draft, name: draft.name.trim() })}
+          disabled={!canSave}
+          activeOpacity={0.7}
+        >
+          <Text style={styles.composerSaveText}>Save</Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.composerContent}
+        keyboardShouldPersistTaps="handled"
+        showsVerticalScrollIndicator={false}
+      >
+        <View style={styles.composerPreview}>
+          <View style={styles.animationArea}>
+            <SpecAnimation
+              key={replayKey}
+              spec={spec}
+              text={draft.text || spec.name}
+              isPlaying
+              loop
+              holdMs={HOLD_AFTER_COMPLETE_MS}
+              exit="custom"
+              markup
+            />
+          </View>
+          <TouchableOpacity
+            style={styles.playButton}
+            onPress={() => setReplayKey(k => k + 1)}
+            activeOpacity={0.7}
+          >
+            <Play size={12} color="#FFFFFF" fill="#FFFFFF" />
+          </TouchableOpacity>
+        </View>
+
+        <TouchableOpacity
+          style={styles.composerCodeButton}
+          onPress={() => setShowCode(true)}
+          disabled={!canSave}
+          activeOpacity={0.7}
+        >
+          <Code size={14} color={canSave ? THEME.textPrimary : THEME.textMuted} />
+          <Text style={[styles.chipText, !canSave && { color: THEME.textMuted }]}>
+            View .tsx source
+          </Text>
+        </TouchableOpacity>
+
+        <Text style={styles.customTextLabel}>Name</Text>
+        <TextInput
+          style={styles.composerInput}
+          value={draft.name}
+          onChangeText={(name) => update({ name })}
+          placeholder="Name"
+          placeholderTextColor={THEME.textMuted}
+          autoCorrect={false}
+        />
+        <Text style={styles.customTextLabel}>Preview text</Text>
+        <TextInput
+          style={styles.composerInput}
+          value={draft.text}
+          onChangeText={(t) => update({ text: t.slice(0, MAX_CHARS) })}
+          placeholder="Text"
+          placeholderTextColor={THEME.textMuted}
+          maxLength={MAX_CHARS}
+          autoCorrect={false}
+          autoCapitalize="none"
+        />
+
+        <View style={styles.composerChipRow}>
+          <View style={styles.chip}>
+            <Text style={styles.chipText}>Unit</Text>
+            <TouchableOpacity
+              onPress={() => update({ unit: draft.unit === 'word' ? 'char' : 'word' })}
+              activeOpacity={0.7}
+              style={[styles.speedValue, styles.speedValueActive]}
+            >
+              <Text style={[styles.speedValueText, styles.speedValueTextActive]}>{draft.unit}</Text>
+            </TouchableOpacity>
+          </View>
+          <View style={styles.chip}>
+            <Text style={styles.chipText}>Easing</Text>
+            <TouchableOpacity
+              onPress={() => update({
+                easing: COMPOSER_EASINGS[
+                  (COMPOSER_EASINGS.indexOf(draft.easing) + 1) % COMPOSER_EASINGS.length
+                ],
+              })}
+              activeOpacity={0.7}
+              style={[styles.speedValue, styles.speedValueActive]}
+            >
+              <Text style={[styles.speedValueText, styles.speedValueTextActive]}>
+                {draft.easing}
+              </Text>
+            </TouchableOpacity>
+          </View>
+          <View style={styles.chip}>
+            <Text style={styles.chipText}>Pause after punctuation</Text>
+            <TouchableOpacity
+              onPress={() => update({ punctuationDelay: !draft.punctuationDelay })}
+              activeOpacity={0.7}
+              style={[styles.toggle, draft.punctuationDelay && styles.toggleActive]}
+            >
+              <View
+                style={[styles.toggleThumb, draft.punctuationDelay && styles.toggleThumbActive]}
+              />
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        <View style={styles.composerRow}>
+          <Text style={styles.composerRowLabel}>Duration</Text>
+          <Stepper
+            value={draft.durationMs}
+            {...DURATION_RANGE}
+            suffix="ms"
+            onChange={(durationMs) => update({ durationMs })}
+          />
+        </View>
+        <View style={styles.composerRow}>
+          <Text style={styles.composerRowLabel}>Stagger</Text>
+          <Stepper
+            value={draft.staggerMs}
+            {...STAGGER_RANGE}
+            suffix="ms"
+            onChange={(staggerMs) => update({ staggerMs })}
+          />
+        </View>
+
+        <Text style={[styles.customTextLabel, styles.composerSectionLabel]}>Properties</Text>
+        <View style={styles.composerChipRow}>
+          {COMPOSER_PROPERTIES.map(option => {
+            const enabled = draft.properties[option.property] !== undefined;
+            return (
+              <TouchableOpacity
+                key={option.property}
+                style={[styles.speedValue, enabled && styles.speedValueActive]}
+                onPress={() => toggleProperty(option)}
+                activeOpacity={0.7}
+              >
+                <Text style={[styles.speedValueText, enabled && styles.speedValueTextActive]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+        {COMPOSER_PROPERTIES.map(option => {
+          const range = draft.properties[option.property];
+          if (!range) return null;
+          return (
+            <View key={option.property} style={styles.composerRow}>
+              <Text style={styles.composerRowLabel}>{option.label}</Text>
+              {renderValue(option, range.from, 'from')}
+              <Text style={styles.composerArrow}>→</Text>
+              {renderValue(option, range.to, 'to')}
+            </View>
+          );
+        })}
+
+        {initial && (
+          <TouchableOpacity
+            style={styles.composerDelete}
+            onPress={() => onDelete(initial.id)}
+            activeOpacity={0.7}
+          >
+            <Trash2 size={14} color={THEME.accent} />
+            <Text style={styles.composerDeleteText}>Delete animation</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+// ============================================================================
+// SHARE + IMPORT SHEETS
+// ============================================================================
+
+interface ShareSheetProps {
+  preset: SharedPreset;
+  label: string;
+  onClose: () => void;
+}
+
+function ShareSheet({ preset, label, onClose }: ShareSheetProps) {
+  const insets = useSafeAreaInsets();
+  const json = useMemo(() => presetJson(preset), [preset]);
+  const link = useMemo(() => presetLink(preset), [preset]);
+
+  return (
+    <View style={[styles.container, { paddingBottom: insets.bottom }]}>
+      <View style={styles.composerHeader}>
+        <TouchableOpacity style={styles.composerClose} onPress={onClose} activeOpacity={0.6}>
+          <X size={16} color={THEME.textPrimary} />
+        </TouchableOpacity>
+        <Text style={styles.composerTitle}>Share {label}</Text>
+        <View style={styles.composerClose} />
+      </View>
+      <ScrollView contentContainerStyle={styles.composerContent}>
+        <View style={styles.composerRow}>
+          <Text style={styles.customTextLabel}>Link</Text>
+          <View style={{ flex: 1 }} />
+          <TouchableOpacity
+            style={styles.composerSave}
+            onPress={() => Share.share({ message: link })}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.composerSaveText}>Share link</Text>
+          </TouchableOpacity>
+        </View>
+        <Text style={styles.codeText} selectable>{link}</Text>
+
+        <View style={[styles.composerRow, styles.composerSectionLabel]}>
+          <Text style={styles.customTextLabel}>JSON</Text>
+          <View style={{ flex: 1 }} />
+          <TouchableOpacity
+            style={styles.composerSave}
+            onPress={() => Share.share({ message: json })}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.composerSaveText}>Share JSON</Text>
+          </TouchableOpacity>
+        </View>
+        <Text style={styles.codeText} selectable>{json}</Text>
+      </ScrollView>
+    </View>
+  );
+}
+
+interface ImportSheetProps {
+  /** Input to start from, e.g. a deep link that failed to import. */
+  initialInput: string;
+  initialErrors: string[];
+  onImport: (input: string) => string[];
+  onClose: () => void;
+}
+
+function ImportSheet({ initialInput, initialErrors, onImport, onClose }: ImportSheetProps) {
+  const insets = useSafeAreaInsets();
+  const [input, setInput] = useState(initialInput);
+  const [errors, setErrors] = useState(initialErrors);
+
+  return (
+    <View style={[styles.container, { paddingBottom: insets.bottom }]}>
+      <View style={styles.composerHeader}>
+        <TouchableOpacity style={styles.composerClose} onPress={onClose} activeOpacity={0.6}>
+          <X size={16} color={THEME.textPrimary} />
+        </TouchableOpacity>
+        <Text style={styles.composerTitle}>Import preset</Text>
+        <TouchableOpacity
+          style={[styles.composerSave, input.trim() === '' && { opacity: 0.3 }]}
+          onPress={() => setErrors(onImport(input))}
+          disabled={input.trim() === ''}
+          activeOpacity={0.7}
+        >
+          <Text style={styles.composerSaveText}>Import</Text>
+        </TouchableOpacity>
+      </View>
+      <ScrollView
+        contentContainerStyle={styles.composerContent}
+        keyboardShouldPersistTaps="handled"
+      >
+        <Text style={styles.customTextLabel}>Paste JSON or a textanimationlab:// link</Text>
+        <TextInput
+          style={[styles.composerInput, styles.codeText, styles.importInput]}
+          value={input}
+          onChangeText={(text) => {
+            setInput(text);
+            setErrors([]);
+          }}
+          placeholder='{ "version": 1, "animation": "slam-in", … }'
+          placeholderTextColor={THEME.textMuted}
+          autoCorrect={false}
+          autoCapitalize="none"
+          multiline
+        />
+        {errors.map((error) => (
+          <Text key={error} style={styles.importError}>{error}</Text>
+        ))}
+      </ScrollView>
+    </View>
+  );
+}
+
+// ============================================================================
+// BENCHMARK
+// ============================================================================
+
+
+const BENCHMARK_LENGTHS = [100, 200, 400];
+const BENCHMARK_SOURCE = 'Light sweeps across the surface of every letter, one after another. ';
+const BENCHMARK_RENDERERS: { value: BenchmarkRenderer; label: string }[] = [
+  { value: 'legacy', label: 'Per-glyph (before)' },
+  { value: 'single', label: 'Single clock (after)' },
+];
+/** One frame at 60 Hz; longer frames count as dropped ones. */
+const FRAME_BUDGET_MS = 1000 / 60;
+/** Pause between two queued runs, so one's unmount isn't timed as the next's mount. */
+const BENCHMARK_GAP_MS = 600;
+// The per-glyph renderer's timing, as LetterShimmer shipped before specs.
+const LEGACY_STAGGER_MS = 25;
+const LEGACY_SHIMMER_MS_PER_WORD = 450;
+
+function benchmarkText(length: number): string {
+  return BENCHMARK_SOURCE.repeat(Math.ceil(length / BENCHMARK_SOURCE.length))
+    .slice(0, length);
+}
+
+interface LegacyGlyphProps {
+  char: string;
+  index: number;
+  count: number;
+  shimmerPos: SharedValue<number>;
+}
+
+// Each glyph owns its shared values and schedules its own delayed
+// animations, the way every animation rendered before specs.
+function LegacyGlyph({ char, index, count, shimmerPos }: LegacyGlyphProps) {
+  const translateX = useSharedValue(20);
+  const opacity = useSharedValue(0);
+  const charPos = index / (count / 4);
+
+  useEffect(() => {
+    const delay = index * LEGACY_STAGGER_MS;
+    translateX.value = withDelay(
+      delay,
+      withTiming(0, { duration: 400, easing: Easing.out(Easing.poly(4)) }),
+    );
+    opacity.value = withDelay(
+      delay,
+      withTiming(1, { duration: 300, easing: Easing.out(Easing.quad) }),
+    );
+  }, [index]);
+
+  const intensity = useDerivedValue(() =>
+    Math.max(0, 1 - Math.abs(shimmerPos.value - charPos) * 0.6),
+  );
+
+  const animatedStyle = useAnimatedStyle(() => ({
+    opacity: opacity.value,
+    color: interpolateColor(intensity.value, [0, 1], [THEME.textPrimary, THEME.accent]),
+    transform: [{ translateX: translateX.value }],
+  }));
+
+  return (
+    <Animated.Text style={[styles.benchmarkGlyph, animatedStyle]}>
+      {char === ' ' ? '\u00A0' : char}
+    </Animated.Text>
+  );
+}
+
+function LegacyLetterShimmer({ text }: { text: string }) {
+  const chars = useMemo(() => text.split(''), [text]);
+  const wordCount = useMemo(() => text.split(' ').filter(Boolean).length, [text]);
+  const shimmerPos = useSharedValue(-0.5);
+
+  useEffect(() => {
+    const sweepMs = wordCount * LEGACY_SHIMMER_MS_PER_WORD;
+    shimmerPos.value = withRepeat(
+      withSequence(
+        withTiming(wordCount + 1, { duration: sweepMs }),
+        withTiming(-0.5, { duration: sweepMs }),
+      ),
+      -1,
+    );
+    return () => cancelAnimation(shimmerPos);
+  }, [wordCount]);
+
+  return (
+    <View style={styles.benchmarkRow}>
+      {chars.map((char, i) => (
+        <LegacyGlyph
+          key={`${i}-${char}`}
+          char={char}
+          index={i}
+          count={chars.length}
+          shimmerPos={shimmerPos}
+        />
+      ))}
+    </View>
+  );
+}
+
+function formatResult(result: BenchmarkResult): string {
+  return [
+    `mount ${Math.round(result.mountMs)} ms`,
+    `avg ${result.averageFrameMs.toFixed(1)} ms`,
+    `worst ${Math.round(result.worstFrameMs)} ms`,
+    `${result.droppedFrames} dropped`,
+    `JS worst ${Math.round(result.worstJsFrameMs)} ms`,
+  ].join(' · ');
+}
+
+interface BenchmarkScreenProps {
+  onClose: () => void;
+}
+
+function BenchmarkScreen({ onClose }: BenchmarkScreenProps) {
+  const insets = useSafeAreaInsets();
+  const [length, setLength] = useState(BENCHMARK_LENGTHS[1]);
+  const [run, setRun] = useState<BenchmarkRun | null>(null);
+  const [results, setResults] = useState<BenchmarkResult[]>([]);
+  const text = useMemo(() => benchmarkText(length), [length]);
+  // Both renderers play the same entrance, so each run lasts as long as it.
+  const durationMs = useMemo(
+    () => getLetterShimmerDuration(text, { punctuationDelay: false }),
+    [text],
+  );
+  const mountMs = useRef<number | null>(null);
+  const gapTimeout = useRef<NodeJS.Timeout | null>(null);
+
+  const frameCount = useSharedValue(0);
+  const frameTotalMs = useSharedValue(0);
+  const worstFrameMs = useSharedValue(0);
+  const droppedFrames = useSharedValue(0);
+  // Memoized so it registers once: every registration drops a frame's delta.
+  const onFrame = useCallback(({ timeSincePreviousFrame: delta }: FrameInfo) => {
+    'worklet';
+    if (delta === null) return;
+    frameCount.value += 1;
+    frameTotalMs.value += delta;
+    worstFrameMs.value = Math.max(worstFrameMs.value, delta);
+    droppedFrames.value += Math.max(0, Math.round(delta / FRAME_BUDGET_MS) - 1);
+  }, []);
+  const frameCallback = useFrameCallback(onFrame, false);
+
+  const startRun = useCallback((renderers: BenchmarkRenderer[]) => {
+    frameCount.value = 0;
+    frameTotalMs.value = 0;
+    worstFrameMs.value = 0;
+    droppedFrames.value = 0;
+    mountMs.current = null;
+    setRun({
+      renderer: renderers[0],
+      remaining: renderers.slice(1),
+      startedAt: performance.now(),
+    });
+  }, []);
+
+  useEffect(() => () => {
+    if (gapTimeout.current) clearTimeout(gapTimeout.current);
+  }, []);
+
+  // Record UI and JS frame times for the length of the entrance.
+  useEffect(() => {
+    if (!run) return;
+    frameCallback.setActive(true);
+    let worstJsFrameMs = 0;
+    let last = performance.now();
+    let frame = requestAnimationFrame(function tick() {
+      const now = performance.now();
+      worstJsFrameMs = Math.max(worstJsFrameMs, now - last);
+      last = now;
+      frame = requestAnimationFrame(tick);
+    });
+    const timeout = setTimeout(() => {
+      const frames = frameCount.value;
+      setResults(prev => [
+        {
+          id: run.startedAt,
+          renderer: run.renderer,
+          chars: text.length,
+          mountMs: mountMs.current ?? 0,
+          frames,
+          averageFrameMs: frames > 0 ? frameTotalMs.value / frames : 0,
+          worstFrameMs: worstFrameMs.value,
+          droppedFrames: droppedFrames.value,
+          worstJsFrameMs,
+        },
+        ...prev,
+      ]);
+      setRun(null);
+      if (run.remaining.length > 0) {
+        gapTimeout.current = setTimeout(() => startRun(run.remaining), BENCHMARK_GAP_MS);
+      }
+    }, durationMs);
+    return () => {
+      clearTimeout(timeout);
+      cancelAnimationFrame(frame);
+      frameCallback.setActive(false);
+    };
+  }, [run]);
+
+  const handleLayout = useCallback(() => {
+    if (run && mountMs.current === null) mountMs.current = performance.now() - run.startedAt;
+  }, [run]);
+
+  return (
+    <View style={[styles.container, { paddingBottom: insets.bottom }]}>
+      <View style={styles.composerHeader}>
+        <TouchableOpacity style={styles.composerClose} onPress={onClose} activeOpacity={0.6}>
+          <X size={16} color={THEME.textPrimary} />
+        </TouchableOpacity>
+        <Text style={styles.composerTitle}>Benchmark</Text>
+        <TouchableOpacity
+          style={[styles.composerSave, run !== null && { opacity: 0.3 }]}
+          onPress={() => startRun(BENCHMARK_RENDERERS.map(r => r.value))}
+          disabled={run !== null}
+          activeOpacity={0.7}
+        >
+          <Text style={styles.composerSaveText}>Run</Text>
+        </TouchableOpacity>
+      </View>
+      <ScrollView contentContainerStyle={styles.composerContent}>
+        <Text style={styles.benchmarkNote}>
+          Plays Letter Shimmer over long text with the per-glyph renderer the animations
+          used to have, then with the single-clock renderer, and records frame times.
+          Run a release build for numbers that mean something.
+        </Text>
+        <View style={styles.composerRow}>
+          <Text style={styles.customTextLabel}>Characters</Text>
+          <View style={{ flex: 1 }} />
+          <TouchableOpacity
+            style={[styles.speedValue, styles.speedValueActive]}
+            onPress={() => setLength(prev => (
+              BENCHMARK_LENGTHS[(BENCHMARK_LENGTHS.indexOf(prev) + 1) % BENCHMARK_LENGTHS.length]
+            ))}
+            disabled={run !== null}
+            activeOpacity={0.7}
+          >
+            <Text style={[styles.speedValueText, styles.speedValueTextActive]}>{length}</Text>
+          </TouchableOpacity>
+        </View>
+
+        <Text style={[styles.customTextLabel, styles.composerSectionLabel]}>
+          {run
+            ? BENCHMARK_RENDERERS.find(r => r.value === run.renderer)?.label
+            : 'Idle'}
+        </Text>
+        <View style={styles.benchmarkStage}>
+          {run && (
+            <View key={run.startedAt} onLayout={handleLayout}>
+              {run.renderer === 'legacy' ? (
+                <LegacyLetterShimmer text={text} />
+              ) : (
+                <LetterShimmer text={text} isPlaying punctuationDelay={false} />
+              )}
+            </View>
+          )}
+        </View>
+
+        {results.length > 0 && (
+          <Text style={[styles.customTextLabel, styles.composerSectionLabel]}>Results</Text>
+        )}
+        {results.map((result) => (
+          <View key={result.id} style={styles.benchmarkResult}>
+            <Text style={styles.benchmarkLabel}>
+              {BENCHMARK_RENDERERS.find(r => r.value === result.renderer)?.label}
+              {' · '}
+              {result.chars} chars
+            </Text>
+            <Text style={styles.benchmarkMetrics}>{formatResult(result)}</Text>
+          </View>
+        ))}
+      </ScrollView>
+    </View>
+  );
+}
+
 // ============================================================================
 // MAIN SCREEN
 // ============================================================================
@@ -267,8 +1673,26 @@ function AnimationLabScreen() {
   const [customText, setCustomText] = useState('');
   const [inputFocused, setInputFocused] = useState(false);
   const [punctuationDelay, setPunctuationDelay] = useState(true);
-  const [orderedAnimations, setOrderedAnimations] = useState(ANIMATIONS);
+  const [speed, setSpeed] = useState(1);
+  const [exitMode, setExitMode] = useState<ExitMode>('custom');
+  const [longText, setLongText] = useState<LongTextMode>('off');
+  const [sampleIndex, setSampleIndex] = useState(0);
+  const [showAccessibility, setShowAccessibility] = useState(false);
+  // Unset follows the OS setting as it changes; the chip overrides it.
+  const [reduceMotionOverride, setReduceMotionOverride] = useState<boolean>();
+  const reduceMotion = useReduceMotion(reduceMotionOverride);
+  const [order, setOrder] = useState<string[]>([]);
+  const [customs, setCustoms] = useState<CustomAnimation[]>([]);
+  // The animation open in the composer: `new`, a saved one, or none.
+  const [composing, setComposing] = useState<CustomAnimation | 'new' | null>(null);
+  const [customsLoaded, setCustomsLoaded] = useState(false);
+  const [sharing, setSharing] = useState<{ preset: SharedPreset; label: string } | null>(null);
+  const [importing, setImporting] = useState<{ input: string; errors: string[] } | null>(null);
+  // The entry an import focused; `key` replays it when the same one is imported again.
+  const [focus, setFocus] = useState<{ id: string; key: number } | null>(null);
+  const [benchmarking, setBenchmarking] = useState(false);
   const inputRef = useRef<TextInput>(null);
+  const listRef = useRef<FlatList<AnimationEntry>>(null);
 
   // Scroll-driven header shadow
   const scrollY = useSharedValue(0);
@@ -282,7 +1706,14 @@ function AnimationLabScreen() {
     shadowOpacity: interpolate(scrollY.value, [0, 30], [0, 0.06], 'clamp'),
   }));
 
-  // Load likes + order from storage
+  // Start with the screen-reader check on when a screen reader is running.
+  useEffect(() => {
+    AccessibilityInfo.isScreenReaderEnabled().then((enabled) => {
+      if (enabled) setShowAccessibility(true);
+    });
+  }, []);
+
+  // Load likes, order and custom animations from storage
   useEffect(() => {
     AsyncStorage.getItem(STORAGE_KEY).then((data) => {
       if (data) {
@@ -291,18 +1722,22 @@ function AnimationLabScreen() {
     });
     AsyncStorage.getItem(ORDER_STORAGE_KEY).then((data) => {
       if (data) {
-        try {
-          const ids: string[] = JSON.parse(data);
-          const byId = new Map(ANIMATIONS.map(a => [a.id, a]));
-          const sorted = ids.map(id => byId.get(id)).filter(Boolean) as AnimationEntry[];
-          const savedSet = new Set(ids);
-          ANIMATIONS.forEach(a => { if (!savedSet.has(a.id)) sorted.push(a); });
-          setOrderedAnimations(sorted);
-        } catch {}
+        try { setOrder(JSON.parse(data)); } catch {}
       }
     });
+    AsyncStorage.getItem(CUSTOM_STORAGE_KEY).then((data) => {
+      if (data) {
+        try { setCustoms(JSON.parse(data)); } catch {}
+      }
+      setCustomsLoaded(true);
+    });
   }, []);
 
+  const orderedAnimations = useMemo(
+    () => orderEntries([...ANIMATIONS, ...customs.map(customEntry)], order),
+    [customs, order],
+  );
+
   const saveLikes = useCallback((newLikes: Set<string>) => {
     AsyncStorage.setItem(STORAGE_KEY, JSON.stringify([...newLikes]));
   }, []);
@@ -321,14 +1756,49 @@ function AnimationLabScreen() {
     setFilterLiked((prev) => !prev);
   }, []);
 
-  const saveOrder = useCallback((list: AnimationEntry[]) => {
-    AsyncStorage.setItem(ORDER_STORAGE_KEY, JSON.stringify(list.map(a => a.id)));
+  const saveOrder = useCallback((ids: string[]) => {
+    AsyncStorage.setItem(ORDER_STORAGE_KEY, JSON.stringify(ids));
   }, []);
 
   const handleDragEnd = useCallback(({ data }: { data: AnimationEntry[] }) => {
-    setOrderedAnimations(data);
-    saveOrder(data);
-  }, [saveOrder]);
+    // While filtered, `data` is only the liked entries: they swap among
+    // their own slots and the rest stay where they were.
+    const moved = data.map(a => a.id);
+    const movedSet = new Set(moved);
+    let next = 0;
+    const ids = orderedAnimations.map(a => (movedSet.has(a.id) ? moved[next++] : a.id));
+    setOrder(ids);
+    saveOrder(ids);
+  }, [orderedAnimations, saveOrder]);
+
+  const saveCustoms = useCallback((list: CustomAnimation[]) => {
+    setCustoms(list);
+    AsyncStorage.setItem(CUSTOM_STORAGE_KEY, JSON.stringify(list));
+  }, []);
+
+  const handleEdit = useCallback((id: string) => {
+    setComposing(customs.find(c => c.id === id) ?? null);
+  }, [customs]);
+
+  const handleSaveCustom = useCallback((custom: CustomAnimation) => {
+    const exists = customs.some(c => c.id === custom.id);
+    saveCustoms(exists
+      ? customs.map(c => (c.id === custom.id ? custom : c))
+      : [...customs, custom]);
+    setComposing(null);
+  }, [customs, saveCustoms]);
+
+  const handleDeleteCustom = useCallback((id: string) => {
+    saveCustoms(customs.filter(c => c.id !== id));
+    setLikes((prev) => {
+      if (!prev.has(id)) return prev;
+      const next = new Set(prev);
+      next.delete(id);
+      saveLikes(next);
+      return next;
+    });
+    setComposing(null);
+  }, [customs, saveCustoms, saveLikes]);
 
   const filteredAnimations = filterLiked
     ? orderedAnimations.filter((a) => likes.has(a.id))
@@ -340,7 +1810,81 @@ function AnimationLabScreen() {
     return map;
   }, [filteredAnimations]);
 
-  const likeCount = likes.size;
+  const likeCount = likes.size;
+
+  const handleShare = useCallback((id: string) => {
+    const entry = orderedAnimations.find(a => a.id === id);
+    if (!entry) return;
+    const text = customText || SAMPLE_TEXTS[sampleIndex].text;
+    setSharing({
+      label: entry.label,
+      preset: {
+        version: PRESET_VERSION,
+        animation: id,
+        text: text || undefined,
+        punctuationDelay,
+        speed,
+        exit: exitMode,
+        custom: entry.custom,
+      },
+    });
+  }, [orderedAnimations, customText, sampleIndex, punctuationDelay, speed, exitMode]);
+
+  const applyPreset = useCallback((preset: SharedPreset) => {
+    const { custom } = preset;
+    if (custom) {
+      saveCustoms([...customs.filter(c => c.id !== custom.id), custom]);
+    }
+    if (preset.text !== undefined) {
+      setCustomText(preset.text);
+      setSampleIndex(0);
+    }
+    if (preset.punctuationDelay !== undefined) setPunctuationDelay(preset.punctuationDelay);
+    if (preset.speed !== undefined) setSpeed(preset.speed);
+    if (preset.exit !== undefined) setExitMode(preset.exit);
+    setFilterLiked(false);
+    setFocus({ id: preset.animation, key: Date.now() });
+  }, [customs, saveCustoms]);
+
+  /** Imports JSON or a link; returns the problems found, if any. */
+  const importPreset = useCallback((input: string): string[] => {
+    const result = parsePreset(input, orderedAnimations.map(a => a.id));
+    if (!result.ok) return result.errors;
+    applyPreset(result.preset);
+    setImporting(null);
+    return [];
+  }, [orderedAnimations, applyPreset]);
+
+  const openLink = useCallback((url: string | null) => {
+    if (!url?.startsWith('textanimationlab://')) return;
+    const errors = importPreset(url);
+    if (errors.length > 0) setImporting({ input: url, errors });
+  }, [importPreset]);
+
+  // Links can name custom animations, so wait for them to load first.
+  const handledInitialLink = useRef(false);
+  useEffect(() => {
+    if (!customsLoaded || handledInitialLink.current) return;
+    handledInitialLink.current = true;
+    Linking.getInitialURL().then(openLink);
+  }, [customsLoaded, openLink]);
+
+  useEffect(() => {
+    if (!customsLoaded) return;
+    const subscription = Linking.addEventListener('url', ({ url }) => openLink(url));
+    return () => subscription.remove();
+  }, [customsLoaded, openLink]);
+
+  // Scroll an imported entry into view once it is in the list, then leave
+  // the scroll position to the designer.
+  const scrolledFocusKey = useRef(0);
+  useEffect(() => {
+    if (!focus || scrolledFocusKey.current === focus.key) return;
+    const index = filteredAnimations.findIndex(a => a.id === focus.id);
+    if (index < 0) return;
+    scrolledFocusKey.current = focus.key;
+    listRef.current?.scrollToIndex({ index, viewPosition: 0.3 });
+  }, [focus, filteredAnimations]);
 
   const renderItem = useCallback(({ item, drag, isActive }: RenderItemParams<AnimationEntry>) => {
     const index = indexMap.get(item.id) ?? 0;
@@ -350,13 +1894,36 @@ function AnimationLabScreen() {
         number={index + 1}
         isLiked={likes.has(item.id)}
         onToggleLike={handleToggleLike}
-        customText={customText}
+        customText={customText || SAMPLE_TEXTS[sampleIndex].text}
         punctuationDelay={punctuationDelay}
+        speed={speed}
+        exitMode={exitMode}
+        longText={longText}
+        onEdit={handleEdit}
+        onShare={handleShare}
+        showAccessibility={showAccessibility}
+        reduceMotion={reduceMotion}
+        playRequest={focus?.id === item.id ? focus.key : 0}
         drag={drag}
         isActive={isActive}
       />
     );
-  }, [likes, handleToggleLike, indexMap, customText, punctuationDelay]);
+  }, [
+    likes,
+    handleToggleLike,
+    handleEdit,
+    handleShare,
+    showAccessibility,
+    reduceMotion,
+    focus,
+    indexMap,
+    customText,
+    sampleIndex,
+    punctuationDelay,
+    speed,
+    exitMode,
+    longText,
+  ]);
 
   const keyExtractor = useCallback((item: AnimationEntry) => item.id, []);
 
@@ -392,8 +1959,7 @@ function AnimationLabScreen() {
             maxLength={MAX_CHARS}
             autoCorrect={false}
             autoCapitalize="none"
-            returnKeyType="done"
-            onSubmitEditing={() => inputRef.current?.blur()}
+            multiline
             onFocus={() => setInputFocused(true)}
             onBlur={() => setInputFocused(false)}
           />
@@ -420,9 +1986,104 @@ function AnimationLabScreen() {
             <Animated.View style={[styles.toggleThumb, punctuationDelay && styles.toggleThumbActive]} />
           </TouchableOpacity>
         </View>
+        <View style={styles.chip}>
+          <Text style={styles.chipText}>Speed</Text>
+          <TouchableOpacity
+            onPress={() => setSpeed(prev => (
+              SPEED_OPTIONS[(SPEED_OPTIONS.indexOf(prev) + 1) % SPEED_OPTIONS.length]
+            ))}
+            activeOpacity={0.7}
+            style={[styles.speedValue, speed !== 1 && styles.speedValueActive]}
+          >
+            <Text style={[styles.speedValueText, speed !== 1 && styles.speedValueTextActive]}>
+              {speed}x
+            </Text>
+          </TouchableOpacity>
+        </View>
+        <View style={styles.chip}>
+          <Text style={styles.chipText}>Exit</Text>
+          <TouchableOpacity
+            onPress={() => setExitMode(prev => (
+              EXIT_OPTIONS[(EXIT_OPTIONS.indexOf(prev) + 1) % EXIT_OPTIONS.length]
+            ))}
+            activeOpacity={0.7}
+            style={[styles.speedValue, styles.speedValueActive]}
+          >
+            <Text style={[styles.speedValueText, styles.speedValueTextActive]}>
+              {exitMode}
+            </Text>
+          </TouchableOpacity>
+        </View>
+        <View style={styles.chip}>
+          <Text style={styles.chipText}>Long text</Text>
+          <TouchableOpacity
+            onPress={() => setLongText(prev => (
+              LONG_TEXT_OPTIONS[(LONG_TEXT_OPTIONS.indexOf(prev) + 1) % LONG_TEXT_OPTIONS.length]
+            ))}
+            activeOpacity={0.7}
+            style={[styles.speedValue, longText !== 'off' && styles.speedValueActive]}
+          >
+            <Text
+              style={[styles.speedValueText, longText !== 'off' && styles.speedValueTextActive]}
+            >
+              {longText}
+            </Text>
+          </TouchableOpacity>
+        </View>
+        <View style={styles.chip}>
+          <Text style={styles.chipText}>Screen reader</Text>
+          <TouchableOpacity
+            onPress={() => setShowAccessibility(prev => !prev)}
+            activeOpacity={0.7}
+            style={[styles.toggle, showAccessibility && styles.toggleActive]}
+          >
+            <Animated.View
+              style={[styles.toggleThumb, showAccessibility && styles.toggleThumbActive]}
+            />
+          </TouchableOpacity>
+        </View>
+        <View style={styles.chip}>
+          <Text style={styles.chipText}>Reduce motion</Text>
+          <TouchableOpacity
+            onPress={() => setReduceMotionOverride(!reduceMotion)}
+            activeOpacity={0.7}
+            style={[styles.toggle, reduceMotion && styles.toggleActive]}
+          >
+            <Animated.View
+              style={[styles.toggleThumb, reduceMotion && styles.toggleThumbActive]}
+            />
+          </TouchableOpacity>
+        </View>
+        <View style={styles.chip}>
+          <Text style={styles.chipText}>Sample</Text>
+          <TouchableOpacity
+            onPress={() => {
+              const next = (sampleIndex + 1) % SAMPLE_TEXTS.length;
+              const mode = SAMPLE_TEXTS[next].longText;
+              setSampleIndex(next);
+              if (mode) setLongText(prev => (prev === 'off' ? mode : prev));
+            }}
+            activeOpacity={0.7}
+            style={[styles.speedValue, sampleIndex > 0 && styles.speedValueActive]}
+          >
+            <Text style={[styles.speedValueText, sampleIndex > 0 && styles.speedValueTextActive]}>
+              {SAMPLE_TEXTS[sampleIndex].label}
+            </Text>
+          </TouchableOpacity>
+        </View>
       </View>
     </View>
-  ), [customText, punctuationDelay, inputFocused]);
+  ), [
+    customText,
+    punctuationDelay,
+    speed,
+    exitMode,
+    longText,
+    sampleIndex,
+    showAccessibility,
+    reduceMotion,
+    inputFocused,
+  ]);
 
   const ListEmpty = useMemo(() => (
     <View style={styles.emptyState}>
@@ -441,9 +2102,30 @@ function AnimationLabScreen() {
           <Text style={styles.subtitle}>
             {filterLiked
               ? `${filteredAnimations.length} liked`
-              : `${ANIMATIONS.length} animations`}
+              : `${orderedAnimations.length} animations`}
           </Text>
         </View>
+        <TouchableOpacity
+          style={styles.composeButton}
+          onPress={() => setBenchmarking(true)}
+          activeOpacity={0.7}
+        >
+          <Gauge size={15} color={THEME.textPrimary} />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.composeButton}
+          onPress={() => setImporting({ input: '', errors: [] })}
+          activeOpacity={0.7}
+        >
+          <Import size={15} color={THEME.textPrimary} />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.composeButton}
+          onPress={() => setComposing('new')}
+          activeOpacity={0.7}
+        >
+          <Plus size={16} color={THEME.textPrimary} />
+        </TouchableOpacity>
         <TouchableOpacity
           style={[styles.filterButton, filterLiked && styles.filterButtonActive]}
           onPress={handleToggleFilter}
@@ -463,6 +2145,7 @@ function AnimationLabScreen() {
       </Animated.View>
 
       <DraggableFlatList
+        ref={listRef}
         data={filteredAnimations}
         keyExtractor={keyExtractor}
         renderItem={renderItem}
@@ -477,7 +2160,67 @@ function AnimationLabScreen() {
         activationDistance={10}
         onScroll={scrollHandler}
         scrollEventThrottle={16}
+        onScrollToIndexFailed={({ index, averageItemLength }) => {
+          // Rows measure themselves, so estimate the offset of unrendered ones.
+          listRef.current?.scrollToOffset({ offset: index * averageItemLength });
+        }}
       />
+
+      <Modal
+        visible={composing !== null}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setComposing(null)}
+      >
+        {composing !== null && (
+          <ComposerScreen
+            initial={composing === 'new' ? undefined : composing}
+            onSave={handleSaveCustom}
+            onDelete={handleDeleteCustom}
+            onClose={() => setComposing(null)}
+          />
+        )}
+      </Modal>
+
+      <Modal
+        visible={sharing !== null}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setSharing(null)}
+      >
+        {sharing !== null && (
+          <ShareSheet
+            preset={sharing.preset}
+            label={sharing.label}
+            onClose={() => setSharing(null)}
+          />
+        )}
+      </Modal>
+
+      <Modal
+        visible={importing !== null}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setImporting(null)}
+      >
+        {importing !== null && (
+          <ImportSheet
+            initialInput={importing.input}
+            initialErrors={importing.errors}
+            onImport={importPreset}
+            onClose={() => setImporting(null)}
+          />
+        )}
+      </Modal>
+
+      <Modal
+        visible={benchmarking}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setBenchmarking(false)}
+      >
+        {benchmarking && <BenchmarkScreen onClose={() => setBenchmarking(false)} />}
+      </Modal>
     </View>
   );
 }
@@ -490,7 +2233,9 @@ export default function App() {
   return (
     <GestureHandlerRootView style={{ flex: 1 }}>
       <SafeAreaProvider>
-        <AnimationLabScreen />
+        <TextAnimationThemeProvider theme={ANIMATION_THEME}>
+          <AnimationLabScreen />
+        </TextAnimationThemeProvider>
       </SafeAreaProvider>
     </GestureHandlerRootView>
   );
@@ -571,6 +2316,8 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: THEME.textPrimary,
     padding: 0,
+    maxHeight: 120,
+    textAlignVertical: 'top',
   },
   customTextClear: {
     width: 28,
@@ -595,6 +2342,16 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginLeft: 10,
   },
+  composeButton: {
+    width: 34,
+    height: 34,
+    borderRadius: 17,
+    backgroundColor: THEME.controlBg,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: 4,
+    marginRight: 8,
+  },
   filterButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -660,6 +2417,9 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: THEME.textPlaceholder,
   },
+  placeholderTextRTL: {
+    textAlign: 'right',
+  },
   heartButton: {
     width: 40,
     height: 40,
@@ -684,12 +2444,83 @@ const styles = StyleSheet.create({
   playButtonActive: {
     backgroundColor: THEME.controlActive,
   },
+  pauseButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: THEME.controlBg,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  pauseButtonActive: {
+    backgroundColor: THEME.borderLight,
+    paddingLeft: 2,
+  },
+  loopButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: THEME.controlBg,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loopButtonActive: {
+    backgroundColor: THEME.textPrimary,
+  },
+  accessibilityCheck: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: THEME.textSecondary,
+    marginLeft: 24,
+    marginTop: 10,
+  },
+  scrubber: {
+    height: 24,
+    justifyContent: 'center',
+    marginLeft: 24,
+    marginTop: 12,
+  },
+  scrubberTrack: {
+    height: 3,
+    borderRadius: 1.5,
+    backgroundColor: THEME.borderLight,
+    overflow: 'hidden',
+  },
+  scrubberFill: {
+    height: 3,
+    backgroundColor: THEME.textPrimary,
+  },
+  scrubberThumb: {
+    position: 'absolute',
+    left: -6,
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    backgroundColor: THEME.textPrimary,
+  },
   label: {
     fontSize: 12,
     fontWeight: '500',
     color: THEME.textLabel,
     letterSpacing: 0.3,
   },
+  shareButton: {
+    width: 32,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  labelButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  duration: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: THEME.textMuted,
+    fontVariant: ['tabular-nums'],
+  },
   dragHandle: {
     width: 40,
     height: 40,
@@ -726,6 +2557,8 @@ const styles = StyleSheet.create({
   },
   chipRow: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
     marginTop: -20,
     marginBottom: 24,
   },
@@ -746,6 +2579,27 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: THEME.textPrimary,
   },
+  speedValue: {
+    minWidth: 44,
+    height: 22,
+    borderRadius: 11,
+    paddingHorizontal: 8,
+    backgroundColor: THEME.controlBg,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  speedValueActive: {
+    backgroundColor: THEME.textPrimary,
+  },
+  speedValueText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: THEME.textPrimary,
+    fontVariant: ['tabular-nums'],
+  },
+  speedValueTextActive: {
+    color: '#FFFFFF',
+  },
   toggle: {
     width: 36,
     height: 22,
@@ -766,4 +2620,208 @@ const styles = StyleSheet.create({
   toggleThumbActive: {
     alignSelf: 'flex-end',
   },
+  composerHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 14,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: THEME.borderLight,
+  },
+  composerClose: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: THEME.controlBg,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  composerTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: THEME.textPrimary,
+  },
+  composerSave: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: THEME.textPrimary,
+  },
+  composerSaveText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  composerContent: {
+    paddingHorizontal: 24,
+    paddingTop: 20,
+    paddingBottom: 40,
+  },
+  composerPreview: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    minHeight: 96,
+    paddingHorizontal: 16,
+    marginBottom: 24,
+    borderRadius: 16,
+    backgroundColor: THEME.surface,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: THEME.border,
+  },
+  composerCodeButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 8,
+    marginTop: -12,
+    marginBottom: 24,
+    paddingVertical: 6,
+  },
+  codeText: {
+    fontFamily: CODE_FONT,
+    fontSize: 11,
+    lineHeight: 16,
+    color: THEME.textPrimary,
+  },
+  importInput: {
+    minHeight: 160,
+    textAlignVertical: 'top',
+  },
+  importError: {
+    fontSize: 13,
+    lineHeight: 18,
+    color: THEME.accent,
+    marginBottom: 6,
+  },
+  composerInput: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: THEME.textPrimary,
+    paddingVertical: 8,
+    marginBottom: 16,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: THEME.borderLight,
+  },
+  composerChipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  composerSectionLabel: {
+    marginTop: 16,
+    marginBottom: 10,
+  },
+  composerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 8,
+  },
+  composerRowLabel: {
+    width: 72,
+    fontSize: 13,
+    fontWeight: '600',
+    color: THEME.textPrimary,
+  },
+  benchmarkNote: {
+    fontSize: 13,
+    lineHeight: 19,
+    color: THEME.textSecondary,
+    marginBottom: 16,
+  },
+  benchmarkStage: {
+    minHeight: 120,
+    padding: 16,
+    borderRadius: 16,
+    backgroundColor: THEME.surface,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: THEME.border,
+    overflow: 'hidden',
+  },
+  benchmarkRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  benchmarkGlyph: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: THEME.textPrimary,
+  },
+  benchmarkResult: {
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: THEME.border,
+  },
+  benchmarkLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: THEME.textPrimary,
+  },
+  benchmarkMetrics: {
+    marginTop: 4,
+    fontFamily: CODE_FONT,
+    fontSize: 12,
+    color: THEME.textSecondary,
+  },
+  composerArrow: {
+    fontSize: 13,
+    color: THEME.textMuted,
+  },
+  composerDelete: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'center',
+    gap: 8,
+    marginTop: 32,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  composerDeleteText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: THEME.accent,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  stepperButton: {
+    width: 26,
+    height: 26,
+    borderRadius: 13,
+    backgroundColor: THEME.controlBg,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepperButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: THEME.textPrimary,
+  },
+  stepperValue: {
+    minWidth: 40,
+    textAlign: 'center',
+    fontSize: 12,
+    fontWeight: '600',
+    color: THEME.textPrimary,
+    fontVariant: ['tabular-nums'],
+  },
+  colorPicker: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    height: 26,
+    paddingHorizontal: 8,
+    borderRadius: 13,
+    backgroundColor: THEME.controlBg,
+  },
+  colorSwatch: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+  },
 });
@@ -1,175 +1,115 @@
 /**
  * Blur Reveal — Text starts blurred and focuses word by word.
  *
- * Self-contained — copy this file to your project.
+ * Copy this file and the core/ folder to your project.
  * Requires: react-native-reanimated
  */
 
-import React, { useEffect, useMemo } from 'react';
-import { StyleSheet, View } from 'react-native';
-import Animated, {
-  Easing,
-  interpolate,
-  interpolateColor,
-  useAnimatedStyle,
-  useSharedValue,
-  withDelay,
-  withTiming,
-} from 'react-native-reanimated';
+import React from 'react';
+import { getSpecDuration } from './core/spec';
+import type { AnimationSpec } from './core/spec';
+import { SpecAnimation } from './core/specAnimation';
+import type { DurationOptions, TextAnimationProps } from './core/types';
 
 // ---------------------------------------------------------------------------
-// Types
+// Spec
 // ---------------------------------------------------------------------------
 
-interface TextAnimationProps {
-  text: string;
-  isPlaying: boolean;
-  punctuationDelay?: boolean;
-}
-
-// ---------------------------------------------------------------------------
-// Config
-// ---------------------------------------------------------------------------
-
-const CONFIG = {
-  fontSize: 20,
-  fontWeight: '600' as const,
-  color: '#000000',
-  punctPauseLong: 300,
-  punctPauseShort: 150,
+export const BLUR_REVEAL_SPEC: AnimationSpec = {
+  name: 'Blur Reveal',
+  unit: 'word',
+  staggerMs: 180,
+  punctuationDelay: true,
+  // Every property follows one eased focus progress; the blur is a text
+  // shadow in the text's own color.
+  tracks: [
+    {
+      type: 'stops',
+      property: 'opacity',
+      durationMs: 700,
+      easing: 'smooth',
+      stops: [
+        { at: 0, value: 0 },
+        { at: 0.4, value: 0.3 },
+        { at: 1, value: 1 },
+      ],
+    },
+    {
+      type: 'stops',
+      property: 'scale',
+      durationMs: 700,
+      easing: 'smooth',
+      stops: [
+        { at: 0, value: 1.08 },
+        { at: 1, value: 1 },
+      ],
+    },
+    {
+      type: 'stops',
+      property: 'translateY',
+      durationMs: 700,
+      easing: 'smooth',
+      stops: [
+        { at: 0, value: 4 },
+        { at: 1, value: 0 },
+      ],
+    },
+    {
+      type: 'stops',
+      property: 'textShadowRadius',
+      durationMs: 700,
+      easing: 'smooth',
+      stops: [
+        { at: 0, value: 20 },
+        { at: 0.6, value: 4 },
+        { at: 1, value: 0 },
+      ],
+    },
+    {
+      type: 'stops',
+      property: 'textShadowColor',
+      durationMs: 700,
+      easing: 'smooth',
+      stops: [
+        { at: 0, value: { token: 'text', alpha: 0.8 } },
+        { at: 0.6, value: { token: 'text', alpha: 0.3 } },
+        { at: 1, value: { token: 'text', alpha: 0 } },
+      ],
+    },
+    {
+      type: 'stops',
+      property: 'color',
+      durationMs: 700,
+      easing: 'smooth',
+      stops: [
+        { at: 0, value: { token: 'text', alpha: 0 } },
+        { at: 0.5, value: { token: 'text', alpha: 0.4 } },
+        { at: 1, value: { token: 'text' } },
+      ],
+    },
+  ],
+  exit: {
+    staggerMs: 100,
+    durationMs: 500,
+    easing: 'gentleIn',
+    style: 'rewind',
+  },
 };
 
 // ---------------------------------------------------------------------------
-// Helpers
+// Component
 // ---------------------------------------------------------------------------
 
-function splitWords(text: string): string[] {
-  return text.split(' ').filter((w) => w.length > 0);
-}
-
-function computeWordDelays(
-  words: string[],
-  staggerMs: number,
-  punctDelay: boolean,
-): number[] {
-  if (!punctDelay) return words.map((_, i) => i * staggerMs);
-  const delays: number[] = [];
-  let cumulative = 0;
-  for (let i = 0; i < words.length; i++) {
-    delays.push(cumulative);
-    cumulative += staggerMs;
-    const last = words[i].slice(-1);
-    if ('.!?'.includes(last)) cumulative += CONFIG.punctPauseLong;
-    else if (last === ',') cumulative += CONFIG.punctPauseShort;
-  }
-  return delays;
-}
+export const BlurReveal: React.FC<TextAnimationProps> = (props) => (
+  <SpecAnimation {...props} spec={BLUR_REVEAL_SPEC} />
+);
 
 // ---------------------------------------------------------------------------
-// BlurRevealWord
+// Duration
 // ---------------------------------------------------------------------------
 
-interface BlurRevealWordProps {
-  word: string;
-  delay: number;
-  isPlaying: boolean;
+export function getBlurRevealDuration(text: string, options?: DurationOptions): number {
+  return getSpecDuration(BLUR_REVEAL_SPEC, text, options);
 }
 
-const BlurRevealWord: React.FC<BlurRevealWordProps> = ({
-  word,
-  delay,
-  isPlaying,
-}) => {
-  const progress = useSharedValue(0);
-
-  useEffect(() => {
-    if (isPlaying) {
-      progress.value = 0;
-
-      progress.value = withDelay(
-        delay,
-        withTiming(1, { duration: 700, easing: Easing.out(Easing.poly(3)) }),
-      );
-    } else {
-      progress.value = 0;
-    }
-  }, [isPlaying, delay]);
-
-  const animatedStyle = useAnimatedStyle(() => ({
-    opacity: interpolate(progress.value, [0, 0.4, 1], [0, 0.3, 1]),
-    transform: [
-      { scale: interpolate(progress.value, [0, 1], [1.08, 1]) },
-      { translateY: interpolate(progress.value, [0, 1], [4, 0]) },
-    ],
-    textShadowRadius: interpolate(
-      progress.value,
-      [0, 0.6, 1],
-      [20, 4, 0],
-    ),
-    textShadowColor: interpolateColor(
-      progress.value,
-      [0, 0.6, 1],
-      ['rgba(0,0,0,0.8)', 'rgba(0,0,0,0.3)', 'rgba(0,0,0,0)'],
-    ),
-    textShadowOffset: { width: 0, height: 0 },
-    color: interpolateColor(
-      progress.value,
-      [0, 0.5, 1],
-      ['rgba(0,0,0,0)', 'rgba(0,0,0,0.4)', CONFIG.color],
-    ),
-  }));
-
-  return (
-    <Animated.Text style={[styles.word, animatedStyle]}>
-      {word}{' '}
-    </Animated.Text>
-  );
-};
-
-// ---------------------------------------------------------------------------
-// BlurReveal
-// ---------------------------------------------------------------------------
-
-export const BlurReveal: React.FC<TextAnimationProps> = ({
-  text,
-  isPlaying,
-  punctuationDelay = true,
-}) => {
-  const words = useMemo(() => splitWords(text), [text]);
-  const delays = useMemo(
-    () => computeWordDelays(words, 180, punctuationDelay),
-    [words, punctuationDelay],
-  );
-
-  return (
-    <View style={styles.row}>
-      {words.map((word, i) => (
-        <BlurRevealWord
-          key={`${i}-${word}`}
-          word={word}
-          delay={delays[i]}
-          isPlaying={isPlaying}
-        />
-      ))}
-    </View>
-  );
-};
-
-// ---------------------------------------------------------------------------
-// Styles
-// ---------------------------------------------------------------------------
-
-const styles = StyleSheet.create({
-  row: {
-    flexDirection: 'row',
-    flexWrap: 'wrap',
-    minHeight: 30,
-  },
-  word: {
-    fontSize: CONFIG.fontSize,
-    fontWeight: CONFIG.fontWeight,
-    color: CONFIG.color,
-  },
-});
-
 export default BlurReveal;
@@ -0,0 +1,38 @@
+/**
+ * Accessibility — One screen-reader element per animation.
+ *
+ * Animations render a node per word or character, which VoiceOver and
+ * TalkBack would read as fragments or spell out letter by letter. The
+ * container instead carries the whole text as its label, and every unit is
+ * hidden from the accessibility tree.
+ */
+
+import type { AccessibilityRole, ViewProps } from 'react-native';
+import { parseMarkup } from './markup';
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+/** Spread on each unit (and the typewriter cursor). */
+export const HIDDEN_FROM_ACCESSIBILITY = {
+  accessibilityElementsHidden: true,
+  importantForAccessibility: 'no-hide-descendants',
+} as const;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** What a screen reader announces for `text`: markup removed, whitespace collapsed. */
+export function accessibilityLabelFor(text: string, markup = false): string {
+  return parseMarkup(text, markup).text.replace(/\s+/g, ' ').trim();
+}
+
+/** Props that make a container the single accessible element for its text. */
+export function accessibleContainerProps(
+  label: string,
+  role: AccessibilityRole = 'text',
+): ViewProps {
+  return { accessible: true, accessibilityRole: role, accessibilityLabel: label };
+}
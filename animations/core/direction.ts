@@ -0,0 +1,91 @@
+/**
+ * Direction — Writing direction detection and mirroring.
+ *
+ * Units are laid out in a wrapping row and slide in with `translateX`.
+ * Neither follows the text's writing direction on its own: rows follow
+ * the app's layout direction and transforms are never mirrored. This
+ * module resolves a direction per text and provides what is needed to
+ * mirror both.
+ */
+
+import { I18nManager } from 'react-native';
+import type { ViewStyle } from 'react-native';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type TextDirection = 'ltr' | 'rtl';
+
+// ---------------------------------------------------------------------------
+// Tables
+// ---------------------------------------------------------------------------
+
+type Range = readonly [number, number];
+
+/** Hebrew, Arabic, Syriac, Thaana, NKo and their presentation forms. */
+const RTL: Range[] = [
+  [0x0590, 0x08ff],
+  [0xfb1d, 0xfdff],
+  [0xfe70, 0xfeff],
+  [0x10800, 0x10fff],
+  [0x1e800, 0x1efff],
+];
+
+/** Digits, punctuation, symbols and emoji carry no direction of their own. */
+const NEUTRAL: Range[] = [
+  [0x0000, 0x0040],
+  [0x005b, 0x0060],
+  [0x007b, 0x00bf],
+  [0x00d7, 0x00d7],
+  [0x00f7, 0x00f7],
+  [0x0300, 0x036f],
+  [0x2000, 0x2bff],
+  [0x3000, 0x303f],
+  [0xfe00, 0xfe0f],
+  [0x1f000, 0x1faff],
+  [0xe0000, 0xe01ef],
+];
+
+function inRanges(cp: number, ranges: Range[]): boolean {
+  return ranges.some(([start, end]) => cp >= start && cp <= end);
+}
+
+// ---------------------------------------------------------------------------
+// Detection
+// ---------------------------------------------------------------------------
+
+/** Direction of the first strongly directional character; LTR if none. */
+export function detectDirection(text: string): TextDirection {
+  for (const ch of text) {
+    const cp = ch.codePointAt(0) ?? 0;
+    if (inRanges(cp, RTL)) return 'rtl';
+    if (!inRanges(cp, NEUTRAL)) return 'ltr';
+  }
+  return 'ltr';
+}
+
+export function resolveDirection(
+  text: string,
+  direction: TextDirection | 'auto' = 'auto',
+): TextDirection {
+  return direction === 'auto' ? detectDirection(text) : direction;
+}
+
+// ---------------------------------------------------------------------------
+// Mirroring
+// ---------------------------------------------------------------------------
+
+/** Multiply horizontal offsets (translateX, skewX) by this. */
+export function directionSign(direction: TextDirection): number {
+  return direction === 'rtl' ? -1 : 1;
+}
+
+/**
+ * Row style that puts units in reading order. Rows follow the app's
+ * layout direction, so only text running against it needs reversing.
+ */
+export function directionRowStyle(direction: TextDirection): ViewStyle | null {
+  const againstLayout = (direction === 'rtl') !== I18nManager.isRTL;
+  return againstLayout ? { flexDirection: 'row-reverse' } : null;
+}
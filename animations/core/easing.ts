@@ -0,0 +1,72 @@
+/**
+ * Easing — Serializable easing descriptions.
+ *
+ * Specs can't hold functions, so they name their easing curves instead:
+ * `{ out: { poly: 5 } }` stands for `Easing.out(Easing.poly(5))`, and
+ * preset names from `core/presets.ts` such as `'snappy'` stand for their
+ * description. This module turns those into Reanimated easing functions.
+ */
+
+import { Easing } from 'react-native-reanimated';
+import type { EasingFunction } from 'react-native-reanimated';
+import { EASING_PRESETS, isEasingPreset } from './presets';
+import type { EasingPreset } from './presets';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type EasingCurve =
+  | 'linear'
+  | 'ease'
+  | 'quad'
+  | 'cubic'
+  | 'sin'
+  | 'circle'
+  | 'exp'
+  | 'bounce';
+
+export type EasingSpec =
+  | EasingCurve
+  | EasingPreset
+  | { poly: number }
+  | { elastic: number }
+  | { back: number }
+  | { bezier: [number, number, number, number] }
+  | { in: EasingSpec }
+  | { out: EasingSpec }
+  | { inOut: EasingSpec };
+
+// ---------------------------------------------------------------------------
+// Resolving
+// ---------------------------------------------------------------------------
+
+const CURVES: Record<EasingCurve, EasingFunction> = {
+  linear: Easing.linear,
+  ease: Easing.ease,
+  quad: Easing.quad,
+  cubic: Easing.cubic,
+  sin: Easing.sin,
+  circle: Easing.circle,
+  exp: Easing.exp,
+  bounce: Easing.bounce,
+};
+
+/** The easing function `spec` describes. */
+export function easingFor(spec: EasingSpec): EasingFunction {
+  if (typeof spec === 'string') {
+    return isEasingPreset(spec) ? easingFor(EASING_PRESETS[spec]) : CURVES[spec];
+  }
+  if ('poly' in spec) return Easing.poly(spec.poly);
+  if ('elastic' in spec) return Easing.elastic(spec.elastic);
+  if ('back' in spec) return Easing.back(spec.back);
+  if ('bezier' in spec) return Easing.bezierFn(...spec.bezier);
+  if ('in' in spec) return Easing.in(easingFor(spec.in));
+  if ('out' in spec) return Easing.out(easingFor(spec.out));
+  return Easing.inOut(easingFor(spec.inOut));
+}
+
+/** Like `easingFor`, but keeps an unset easing unset so defaults apply. */
+export function resolveEasing(spec: EasingSpec | undefined): EasingFunction | undefined {
+  return spec === undefined ? undefined : easingFor(spec);
+}
@@ -0,0 +1,120 @@
+/**
+ * Emphasis — Picks words to emphasize and schedules when each one pops.
+ *
+ * A spec's `emphasis` plays extra tracks on chosen units after they have
+ * entered (Skew Pop's skew and color). Selection works on the timeline's
+ * units, so it follows the same word splitting as the entrance.
+ */
+
+import type { Timeline, TimelineUnit } from './timeline';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * Which units to emphasize:
+ * - a unit index, or several (negative indices count from the end)
+ * - a word, matched case-insensitively without surrounding punctuation
+ * - `{ pattern }`, a regular expression source tested against each unit
+ * - `{ nearest }`, a unit index clamped to the text, so shorter text still
+ *   emphasizes its last unit
+ * - `{ auto: 'longest' }` or `{ auto: 'last' }`
+ */
+export type EmphasisSelector =
+  | number
+  | number[]
+  | string
+  | { pattern: string; flags?: string }
+  | { nearest: number }
+  | { auto: 'longest' | 'last' };
+
+export interface EmphasisTiming {
+  /** Time from a unit's start to its emphasis. */
+  delayMs: number;
+  /** Minimum time between two emphasized units. */
+  staggerMs: number;
+}
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+/** Ignored when matching words: `"Stop!"` matches `stop`. */
+const WORD_EDGE_PUNCTUATION = /^[.,!?;:…"'“”‘’«»()[\]{}—–-]+|[.,!?;:…"'“”‘’«»()[\]{}—–-]+$/g;
+
+// ---------------------------------------------------------------------------
+// Selection
+// ---------------------------------------------------------------------------
+
+function bareWord(unit: TimelineUnit): string {
+  return unit.text.replace(WORD_EDGE_PUNCTUATION, '').toLowerCase();
+}
+
+function matching(units: TimelineUnit[], pattern: RegExp): number[] {
+  return units
+    .filter((u) => {
+      pattern.lastIndex = 0;
+      return pattern.test(u.text);
+    })
+    .map((u) => u.index);
+}
+
+/** Indices of the emphasized units, in order. A `RegExp` works like `{ pattern }`. */
+export function resolveEmphasis(
+  units: TimelineUnit[],
+  selector: EmphasisSelector | RegExp,
+): number[] {
+  const count = units.length;
+  if (count === 0) return [];
+
+  let indices: number[];
+  if (typeof selector === 'number' || Array.isArray(selector)) {
+    indices = ([] as number[])
+      .concat(selector)
+      .map((i) => (i < 0 ? count + i : i))
+      .filter((i) => Number.isInteger(i) && i >= 0 && i < count);
+  } else if (typeof selector === 'string') {
+    const target = selector.toLowerCase();
+    indices = units.filter((u) => bareWord(u) === target).map((u) => u.index);
+  } else if (selector instanceof RegExp) {
+    indices = matching(units, selector);
+  } else if ('pattern' in selector) {
+    indices = matching(units, new RegExp(selector.pattern, selector.flags));
+  } else if ('nearest' in selector) {
+    const index = selector.nearest < 0 ? count + selector.nearest : selector.nearest;
+    indices = [Math.min(Math.max(0, Math.round(index)), count - 1)];
+  } else if (selector.auto === 'last') {
+    indices = [count - 1];
+  } else {
+    const longest = units.reduce((best, u) =>
+      bareWord(u).length > bareWord(best).length ? u : best,
+    );
+    indices = [longest.index];
+  }
+
+  return Array.from(new Set(indices)).sort((a, b) => a - b);
+}
+
+// ---------------------------------------------------------------------------
+// Scheduling
+// ---------------------------------------------------------------------------
+
+/** Emphasis start time per emphasized unit index. */
+export function scheduleEmphasis(
+  timeline: Timeline,
+  indices: number[],
+  timing: EmphasisTiming,
+): Map<number, number> {
+  const starts = new Map<number, number>();
+  let previous = -Infinity;
+  for (const index of indices) {
+    const start = Math.max(
+      timeline.units[index].start + timing.delayMs,
+      previous + timing.staggerMs,
+    );
+    starts.set(index, start);
+    previous = start;
+  }
+  return starts;
+}
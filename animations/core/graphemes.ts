@@ -0,0 +1,288 @@
+/**
+ * Graphemes — Splits text into user-perceived characters.
+ *
+ * `text.split('')` splits UTF-16 code units, which tears surrogate pairs,
+ * emoji ZWJ sequences, flags and combining accents into separate glyphs.
+ * This module groups code points into grapheme clusters following the
+ * main rules of Unicode UAX #29. It uses small range tables rather than
+ * `Intl.Segmenter` or `\p{...}` regexes, so it runs on any Hermes build.
+ */
+
+// ---------------------------------------------------------------------------
+// Tables
+// ---------------------------------------------------------------------------
+
+type Range = readonly [number, number];
+
+const CR = 0x0d;
+const LF = 0x0a;
+const ZWJ = 0x200d;
+
+/** Combining marks, variation selectors, emoji modifiers and tags. */
+const EXTEND: Range[] = [
+  [0x0300, 0x036f], // Combining diacritical marks
+  [0x0483, 0x0489], // Cyrillic
+  [0x0591, 0x05bd], // Hebrew points
+  [0x05bf, 0x05bf],
+  [0x05c1, 0x05c2],
+  [0x05c4, 0x05c5],
+  [0x05c7, 0x05c7],
+  [0x0610, 0x061a], // Arabic
+  [0x064b, 0x065f],
+  [0x0670, 0x0670],
+  [0x06d6, 0x06dc],
+  [0x06df, 0x06e4],
+  [0x06e7, 0x06e8],
+  [0x06ea, 0x06ed],
+  [0x0900, 0x0903], // Devanagari
+  [0x093a, 0x093c],
+  [0x093e, 0x094f],
+  [0x0951, 0x0957],
+  [0x0962, 0x0963],
+  [0x0981, 0x0983], // Bengali
+  [0x09bc, 0x09bc],
+  [0x09be, 0x09cd],
+  [0x09d7, 0x09d7],
+  [0x09e2, 0x09e3],
+  [0x0a01, 0x0a03], // Gurmukhi
+  [0x0a3c, 0x0a51],
+  [0x0a70, 0x0a71],
+  [0x0a75, 0x0a75],
+  [0x0a81, 0x0a83], // Gujarati
+  [0x0abc, 0x0abc],
+  [0x0abe, 0x0acd],
+  [0x0ae2, 0x0ae3],
+  [0x0b01, 0x0b01], // Oriya
+  [0x0b3c, 0x0b3c],
+  [0x0b3e, 0x0b3f],
+  [0x0b41, 0x0b44],
+  [0x0b4d, 0x0b4d],
+  [0x0b55, 0x0b57],
+  [0x0b62, 0x0b63],
+  [0x0b82, 0x0b82], // Tamil
+  [0x0bbe, 0x0bcd],
+  [0x0bd7, 0x0bd7],
+  [0x0c00, 0x0c04], // Telugu
+  [0x0c3e, 0x0c56],
+  [0x0c81, 0x0c83], // Kannada
+  [0x0cbc, 0x0cbc],
+  [0x0cbe, 0x0cd6],
+  [0x0d00, 0x0d03], // Malayalam
+  [0x0d3b, 0x0d3c],
+  [0x0d3e, 0x0d4d],
+  [0x0d57, 0x0d57],
+  [0x0d81, 0x0d81], // Sinhala
+  [0x0dca, 0x0dca],
+  [0x0dcf, 0x0dcf],
+  [0x0dd2, 0x0dd6],
+  [0x0ddf, 0x0ddf],
+  [0x0e31, 0x0e31], // Thai
+  [0x0e34, 0x0e3a],
+  [0x0e47, 0x0e4e],
+  [0x0eb1, 0x0eb1], // Lao
+  [0x0eb4, 0x0ebc],
+  [0x0ec8, 0x0ecd],
+  [0x0f71, 0x0f84], // Tibetan
+  [0x102b, 0x103e], // Myanmar
+  [0x17b4, 0x17d3], // Khmer
+  [0x1ab0, 0x1aff], // Combining diacritical marks extended
+  [0x1dc0, 0x1dff], // Combining diacritical marks supplement
+  [0x200c, 0x200c], // Zero-width non-joiner
+  [0x20d0, 0x20ff], // Combining marks for symbols, incl. keycap U+20E3
+  [0x302a, 0x302f], // CJK tone marks
+  [0x3099, 0x309a], // Kana voiced sound marks
+  [0xfe00, 0xfe0f], // Variation selectors
+  [0xfe20, 0xfe2f], // Combining half marks
+  [0x1f3fb, 0x1f3ff], // Emoji skin tone modifiers
+  [0xe0020, 0xe007f], // Tags (subdivision flags)
+  [0xe0100, 0xe01ef], // Variation selectors supplement
+];
+
+/**
+ * Spacing marks (UAX #29 rule GB9a): vowel signs that take their own width
+ * but belong to the letter before them, like Thai and Lao sara am (ำ, ຳ).
+ */
+const SPACING_MARK: Range[] = [
+  [0x0903, 0x0903], // Devanagari
+  [0x093b, 0x093b],
+  [0x093e, 0x0940],
+  [0x0949, 0x094c],
+  [0x094e, 0x094f],
+  [0x0982, 0x0983], // Bengali
+  [0x09bf, 0x09c0],
+  [0x09c7, 0x09c8],
+  [0x09cb, 0x09cc],
+  [0x0a03, 0x0a03], // Gurmukhi
+  [0x0a3e, 0x0a40],
+  [0x0a83, 0x0a83], // Gujarati
+  [0x0abe, 0x0ac0],
+  [0x0ac9, 0x0ac9],
+  [0x0acb, 0x0acc],
+  [0x0b02, 0x0b03], // Oriya
+  [0x0b40, 0x0b40],
+  [0x0b47, 0x0b48],
+  [0x0b4b, 0x0b4c],
+  [0x0bbf, 0x0bbf], // Tamil
+  [0x0bc1, 0x0bc2],
+  [0x0bc6, 0x0bc8],
+  [0x0bca, 0x0bcc],
+  [0x0c01, 0x0c03], // Telugu
+  [0x0c41, 0x0c44],
+  [0x0c82, 0x0c83], // Kannada
+  [0x0cbe, 0x0cbe],
+  [0x0cc0, 0x0cc4],
+  [0x0cc7, 0x0cc8],
+  [0x0cca, 0x0ccb],
+  [0x0d02, 0x0d03], // Malayalam
+  [0x0d3f, 0x0d40],
+  [0x0d46, 0x0d48],
+  [0x0d4a, 0x0d4c],
+  [0x0d82, 0x0d83], // Sinhala
+  [0x0dd0, 0x0dd1],
+  [0x0dd8, 0x0dde],
+  [0x0df2, 0x0df3],
+  [0x0e33, 0x0e33], // Thai sara am
+  [0x0eb3, 0x0eb3], // Lao sara am
+  [0x1031, 0x1031], // Myanmar
+  [0x103b, 0x103c],
+  [0x1056, 0x1057],
+  [0x1084, 0x1084],
+  [0x17b6, 0x17b6], // Khmer
+  [0x17be, 0x17c5],
+  [0x17c7, 0x17c8],
+];
+
+/** Approximation of Extended_Pictographic, used for ZWJ sequences. */
+const PICTOGRAPHIC: Range[] = [
+  [0x00a9, 0x00a9],
+  [0x00ae, 0x00ae],
+  [0x203c, 0x203c],
+  [0x2049, 0x2049],
+  [0x2122, 0x2122],
+  [0x2139, 0x2139],
+  [0x2194, 0x21aa],
+  [0x231a, 0x23ff],
+  [0x24c2, 0x24c2],
+  [0x25aa, 0x27bf],
+  [0x2934, 0x2935],
+  [0x2b05, 0x2b55],
+  [0x3030, 0x3030],
+  [0x303d, 0x303d],
+  [0x3297, 0x3297],
+  [0x3299, 0x3299],
+  [0x1f000, 0x1faff],
+];
+
+const REGIONAL_INDICATOR: Range = [0x1f1e6, 0x1f1ff];
+
+/** Conjoining Hangul jamo: leading consonants, vowels, trailing consonants. */
+const HANGUL_L: Range = [0x1100, 0x115f];
+const HANGUL_V: Range = [0x1160, 0x11a7];
+const HANGUL_T: Range = [0x11a8, 0x11ff];
+const HANGUL_SYLLABLES: Range = [0xac00, 0xd7a3];
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function inRange(cp: number, [start, end]: Range): boolean {
+  return cp >= start && cp <= end;
+}
+
+function inRanges(cp: number, ranges: Range[]): boolean {
+  let lo = 0;
+  let hi = ranges.length - 1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    const [start, end] = ranges[mid];
+    if (cp < start) hi = mid - 1;
+    else if (cp > end) lo = mid + 1;
+    else return true;
+  }
+  return false;
+}
+
+/** Precomposed syllables without a final consonant (LV) can take a vowel. */
+function isHangulLV(cp: number): boolean {
+  return inRange(cp, HANGUL_SYLLABLES) && (cp - HANGUL_SYLLABLES[0]) % 28 === 0;
+}
+
+function isHangulSyllable(cp: number): boolean {
+  return inRange(cp, HANGUL_SYLLABLES);
+}
+
+function isRegionalIndicator(cp: number): boolean {
+  return inRange(cp, REGIONAL_INDICATOR);
+}
+
+interface ClusterState {
+  /** Previous code point in the cluster. */
+  previous: number;
+  /** Whether the cluster started with a pictographic code point. */
+  pictographic: boolean;
+  /** Regional indicators seen in the cluster. */
+  regionalIndicators: number;
+}
+
+/** Whether `cp` continues the current cluster rather than starting a new one. */
+function continuesCluster(cp: number, state: ClusterState): boolean {
+  const { previous } = state;
+  if (previous === CR) return cp === LF;
+  if (previous === LF || cp === CR || cp === LF) return false;
+
+  // Hangul syllable sequences
+  if (inRange(previous, HANGUL_L)) {
+    if (inRange(cp, HANGUL_L) || inRange(cp, HANGUL_V) || isHangulSyllable(cp)) return true;
+  }
+  if (isHangulLV(previous) || inRange(previous, HANGUL_V)) {
+    if (inRange(cp, HANGUL_V) || inRange(cp, HANGUL_T)) return true;
+  }
+  if (isHangulSyllable(previous) || inRange(previous, HANGUL_T)) {
+    if (inRange(cp, HANGUL_T)) return true;
+  }
+
+  if (cp === ZWJ || inRanges(cp, EXTEND) || inRanges(cp, SPACING_MARK)) return true;
+
+  // Emoji ZWJ sequences, e.g. 👩‍💻
+  if (previous === ZWJ) return state.pictographic && inRanges(cp, PICTOGRAPHIC);
+
+  // Flags are pairs of regional indicators
+  if (isRegionalIndicator(previous) && isRegionalIndicator(cp)) {
+    return state.regionalIndicators % 2 === 1;
+  }
+
+  return false;
+}
+
+// ---------------------------------------------------------------------------
+// Splitting
+// ---------------------------------------------------------------------------
+
+/**
+ * Splits text into grapheme clusters, e.g.
+ * `splitGraphemes('José 👋🏽')` → `['J', 'o', 's', 'é', ' ', '👋🏽']` and
+ * `splitGraphemes('น้ำ')` → `['น้ำ']`.
+ */
+export function splitGraphemes(text: string): string[] {
+  const clusters: string[] = [];
+  let current = '';
+  const state: ClusterState = { previous: -1, pictographic: false, regionalIndicators: 0 };
+
+  // for..of iterates code points, so surrogate pairs stay together.
+  for (const ch of text) {
+    const cp = ch.codePointAt(0) ?? 0;
+    if (current.length > 0 && continuesCluster(cp, state)) {
+      current += ch;
+    } else {
+      if (current.length > 0) clusters.push(current);
+      current = ch;
+      state.pictographic = inRanges(cp, PICTOGRAPHIC);
+      state.regionalIndicators = 0;
+    }
+    if (isRegionalIndicator(cp)) state.regionalIndicators++;
+    state.previous = cp;
+  }
+  if (current.length > 0) clusters.push(current);
+
+  return clusters;
+}
@@ -0,0 +1,30 @@
+/**
+ * LineBreak — Ends the current line inside a wrapping row of units.
+ *
+ * Animations lay units out in a `flexDirection: 'row'` + `flexWrap` view,
+ * where a newline character has no effect. A full-width, zero-height view
+ * forces the next unit onto a new line; extra newlines add blank lines.
+ */
+
+import React from 'react';
+import { View } from 'react-native';
+
+interface LineBreakProps {
+  /** Newlines to render; 0 renders nothing. */
+  count: number;
+  /** Font size of the surrounding text; sets the height of blank lines. */
+  fontSize: number;
+  /** Line height of the surrounding text, if set; overrides `fontSize`. */
+  lineHeight?: number;
+}
+
+/** Approximate default line height of a font, as a multiple of its size. */
+const LINE_HEIGHT_RATIO = 1.2;
+
+export function LineBreak({ count, fontSize, lineHeight }: LineBreakProps) {
+  if (count <= 0) return null;
+  const blankLine = lineHeight ?? fontSize * LINE_HEIGHT_RATIO;
+  return <View style={{ width: '100%', height: (count - 1) * blankLine }} />;
+}
+
+export default LineBreak;
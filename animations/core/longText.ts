@@ -0,0 +1,132 @@
+/**
+ * Long Text — Paragraphs without paragraph-length entrances.
+ *
+ * Staggers are tuned for headlines, and over a paragraph they add up: 25ms
+ * per character is more than 12 seconds for 500 characters. Long-text mode
+ * caps the schedule, can stagger by sentence or line instead of by unit,
+ * and settles text outside the window at once so only what the reader can
+ * see animates.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { RefObject } from 'react';
+import { useWindowDimensions } from 'react-native';
+import type { LayoutChangeEvent, LayoutRectangle, View } from 'react-native';
+import type { StaggerBy, TimelineSettings } from './timeline';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface LongTextOptions {
+  /**
+   * Cap on the entrance and on the exit (ms). Defaults to 3000. Only the
+   * stagger shrinks, so the cap can't go below one unit's duration.
+   */
+  maxDurationMs?: number;
+  /** Defaults to `unit`. */
+  staggerBy?: StaggerBy;
+  /** Time between sentences or lines (ms). Defaults to 250. */
+  groupStaggerMs?: number;
+  /** Settle text above or below the window instantly. Defaults to true. */
+  onlyVisible?: boolean;
+}
+
+export interface OffscreenUnits {
+  /** Attach to the view the blocks are laid out in. */
+  containerRef: RefObject<View | null>;
+  /** `onLayout` of each block; undefined while visibility isn't tracked. */
+  onBlockLayout?: (block: number, event: LayoutChangeEvent) => void;
+  /** Indices of units outside the window; undefined until measured. */
+  offscreen?: ReadonlySet<number>;
+}
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+export const DEFAULT_LONG_TEXT: LongTextOptions = {
+  maxDurationMs: 3000,
+  staggerBy: 'unit',
+  onlyVisible: true,
+};
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** The `longText` prop as options; undefined when long-text mode is off. */
+export function resolveLongText(
+  longText: boolean | LongTextOptions | undefined,
+): LongTextOptions | undefined {
+  if (!longText) return undefined;
+  return longText === true ? DEFAULT_LONG_TEXT : { ...DEFAULT_LONG_TEXT, ...longText };
+}
+
+/** Timeline settings to spread over an animation's own. */
+export function longTextSettings(
+  options: LongTextOptions | undefined,
+): Pick<TimelineSettings, 'maxDurationMs' | 'staggerBy' | 'groupStaggerMs'> {
+  if (!options) return {};
+  const { maxDurationMs, staggerBy, groupStaggerMs } = options;
+  return { maxDurationMs, staggerBy, groupStaggerMs };
+}
+
+// ---------------------------------------------------------------------------
+// Hook
+// ---------------------------------------------------------------------------
+
+/**
+ * Tracks which units lie outside the window. `blocks` lists the unit
+ * indices of each laid-out block, and `layoutKey` changes whenever the
+ * layout does (e.g. with the text). Units are measured as each play
+ * starts, since the text may have scrolled since the last one.
+ */
+export function useOffscreenUnits(
+  enabled: boolean,
+  playing: boolean,
+  layoutKey: string,
+  blocks: number[][],
+): OffscreenUnits {
+  const containerRef = useRef<View>(null);
+  const rects = useRef({ key: layoutKey, byBlock: new Map<number, LayoutRectangle>() });
+  const measuredPlay = useRef(false);
+  const [offscreen, setOffscreen] = useState<{ key: string; units: Set<number> }>();
+  const { height: windowHeight } = useWindowDimensions();
+
+  const measure = useCallback(() => {
+    const { key, byBlock } = rects.current;
+    if (key !== layoutKey || byBlock.size < blocks.length) return;
+    measuredPlay.current = true;
+    containerRef.current?.measureInWindow((_x, top) => {
+      const units = new Set<number>();
+      byBlock.forEach(({ y, height }, block) => {
+        if (top + y + height > 0 && top + y < windowHeight) return;
+        for (const unit of blocks[block] ?? []) units.add(unit);
+      });
+      setOffscreen({ key: layoutKey, units });
+    });
+  }, [layoutKey, blocks, windowHeight]);
+
+  useEffect(() => {
+    measuredPlay.current = false;
+    if (enabled && playing) measure();
+  }, [enabled, playing, measure]);
+
+  const onBlockLayout = useCallback(
+    (block: number, event: LayoutChangeEvent) => {
+      if (rects.current.key !== layoutKey) {
+        rects.current = { key: layoutKey, byBlock: new Map() };
+      }
+      rects.current.byBlock.set(block, event.nativeEvent.layout);
+      if (playing && !measuredPlay.current) measure();
+    },
+    [layoutKey, playing, measure],
+  );
+
+  return {
+    containerRef,
+    onBlockLayout: enabled ? onBlockLayout : undefined,
+    offscreen: enabled && offscreen?.key === layoutKey ? offscreen.units : undefined,
+  };
+}
@@ -0,0 +1,193 @@
+/**
+ * Markup — Inline styling for animated text.
+ *
+ * `Make the *important* stand out` and `{accent}Sale{/accent} ends today`
+ * parse into the plain text plus spans over it. Animations time the plain
+ * text as one continuous sequence and style each unit's slice of a span,
+ * so markup never changes when a unit appears. `*` emphasizes; any
+ * `{name}…{/name}` pair applies the style registered under `name`. Use a
+ * backslash for a literal `\*` or `\{`.
+ */
+
+import type { StyleProp, TextStyle } from 'react-native';
+import type { TextToken } from './timeline';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface MarkupSpan {
+  tag: string;
+  /** Offsets into the plain text; `end` is exclusive. */
+  start: number;
+  end: number;
+}
+
+export interface ParsedMarkup {
+  /** The text with all markup removed. */
+  text: string;
+  spans: MarkupSpan[];
+}
+
+/** A run of text and the tags that apply to all of it. */
+export interface MarkupFragment {
+  text: string;
+  tags: string[];
+}
+
+/** Text style per tag name. */
+export type MarkupStyles = Record<string, StyleProp<TextStyle>>;
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+/** The tag `*…*` stands for. */
+export const EMPHASIS_TAG = 'emphasis';
+
+const TAG = /^\{(\/?)([A-Za-z][\w-]*)\}/;
+const ESCAPABLE = '\\*{';
+
+/**
+ * Built-in tag styles: `emphasis` is heavier, `accent` takes the
+ * animation's accent color. `overrides` replace or add tags.
+ */
+export function resolveMarkupStyles(accentColor: string, overrides?: MarkupStyles): MarkupStyles {
+  return {
+    [EMPHASIS_TAG]: { fontWeight: '800' },
+    accent: { color: accentColor },
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+function isSpace(char: string | undefined): boolean {
+  return char === undefined || /\s/.test(char);
+}
+
+/** Whether an unescaped `*` that could close emphasis follows `from`. */
+function hasClosingStar(source: string, from: number): boolean {
+  for (let i = from; i < source.length; i++) {
+    if (source[i] === '\\') i++;
+    else if (source[i] === '*' && !isSpace(source[i - 1])) return true;
+  }
+  return false;
+}
+
+/**
+ * Strips markup from `source`. Markers without a partner (`5 * 3`, a lone
+ * `{tag}`) are kept as literal text. Markup is opt-in, like the `markup`
+ * prop: unless `enabled` is true the source is returned untouched, so
+ * `parseMarkup('rate*2*x {b}hi{/b}')` keeps every character.
+ */
+export function parseMarkup(source: string, enabled = false): ParsedMarkup {
+  if (!enabled) return { text: source, spans: [] };
+
+  let text = '';
+  const spans: MarkupSpan[] = [];
+  const open: { tag: string; start: number }[] = [];
+
+  const close = (tag: string): boolean => {
+    const index = open.map((o) => o.tag).lastIndexOf(tag);
+    if (index < 0) return false;
+    const [{ start }] = open.splice(index, 1);
+    if (text.length > start) spans.push({ tag, start, end: text.length });
+    return true;
+  };
+
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+
+    if (char === '\\' && ESCAPABLE.includes(source[i + 1] ?? '')) {
+      text += source[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === '*') {
+      if (!isSpace(source[i - 1]) && close(EMPHASIS_TAG)) {
+        i++;
+        continue;
+      }
+      if (!isSpace(source[i + 1]) && hasClosingStar(source, i + 2)) {
+        open.push({ tag: EMPHASIS_TAG, start: text.length });
+        i++;
+        continue;
+      }
+    }
+
+    if (char === '{') {
+      const match = TAG.exec(source.slice(i));
+      if (match) {
+        const [marker, slash, tag] = match;
+        let consumed = false;
+        if (slash) {
+          consumed = close(tag);
+        } else if (source.includes(`{/${tag}}`, i + marker.length)) {
+          open.push({ tag, start: text.length });
+          consumed = true;
+        }
+        if (consumed) {
+          i += marker.length;
+          continue;
+        }
+      }
+    }
+
+    text += char;
+    i++;
+  }
+
+  spans.sort((a, b) => a.start - b.start);
+  return { text, spans };
+}
+
+// ---------------------------------------------------------------------------
+// Fragments
+// ---------------------------------------------------------------------------
+
+function tagsAt(spans: MarkupSpan[], offset: number): string[] {
+  return spans.filter((s) => offset >= s.start && offset < s.end).map((s) => s.tag);
+}
+
+function sameTags(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((tag, i) => tag === b[i]);
+}
+
+/** Joins neighbouring fragments that carry the same tags. */
+export function mergeFragments(fragments: MarkupFragment[]): MarkupFragment[] {
+  const merged: MarkupFragment[] = [];
+  for (const fragment of fragments) {
+    const last = merged[merged.length - 1];
+    if (last && sameTags(last.tags, fragment.tags)) last.text += fragment.text;
+    else merged.push({ text: fragment.text, tags: fragment.tags });
+  }
+  return merged;
+}
+
+/**
+ * Splits each unit's rendered text (see `unitDisplayText`) into styled
+ * fragments. Units must come from tokenizing `parsed.text`, in order.
+ */
+export function unitFragments(units: TextToken[], parsed: ParsedMarkup): MarkupFragment[][] {
+  let cursor = 0;
+  return units.map((unit) => {
+    const display = unit.leading + unit.text + unit.trailing;
+    if (parsed.spans.length === 0) return [{ text: display, tags: [] }];
+
+    const found = parsed.text.indexOf(display, cursor);
+    const offset = found < 0 ? cursor : found;
+    cursor = offset + display.length;
+
+    // Per UTF-16 code unit, to line up with span offsets.
+    const chars = Array.from({ length: display.length }, (_, i) => ({
+      text: display[i],
+      tags: tagsAt(parsed.spans, offset + i),
+    }));
+    return mergeFragments(chars);
+  });
+}
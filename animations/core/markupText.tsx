@@ -0,0 +1,40 @@
+/**
+ * MarkupText — Renders markup fragments inside an animated unit.
+ *
+ * Tagged fragments become nested `<Text>` elements, so they inherit the
+ * unit's font and animated opacity / transforms while their own style
+ * (color, weight) wins over the unit's.
+ */
+
+import React from 'react';
+import { Text } from 'react-native';
+import type { StyleProp, TextStyle } from 'react-native';
+import type { MarkupFragment, MarkupStyles } from './markup';
+
+interface MarkupTextProps {
+  fragments: MarkupFragment[];
+  styles: MarkupStyles;
+}
+
+/** Combined style of a fragment's tags; later (inner) tags win. */
+export function fragmentStyle(tags: string[], styles: MarkupStyles): StyleProp<TextStyle> {
+  return tags.map((tag) => styles[tag]);
+}
+
+export function MarkupText({ fragments, styles }: MarkupTextProps) {
+  return (
+    <>
+      {fragments.map((fragment, i) =>
+        fragment.tags.length === 0 ? (
+          fragment.text
+        ) : (
+          <Text key={i} style={fragmentStyle(fragment.tags, styles)}>
+            {fragment.text}
+          </Text>
+        ),
+      )}
+    </>
+  );
+}
+
+export default MarkupText;
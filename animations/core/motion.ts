@@ -0,0 +1,171 @@
+/**
+ * Motion — Pure worklet helpers that evaluate an animated property at time t.
+ *
+ * These mirror withTiming / withSequence / withSpring, but instead of
+ * scheduling an animation they answer "what is the value `t` ms after the
+ * start?". That makes every frame reproducible, so playback can be paused,
+ * scrubbed and driven from a single clock.
+ */
+
+import { Easing } from 'react-native-reanimated';
+import type { EasingFunction } from 'react-native-reanimated';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface SpringConfig {
+  damping: number;
+  stiffness: number;
+  mass: number;
+}
+
+/**
+ * When a keyframe is reached (`at` ms) and how: the segment from the
+ * previous keyframe eases in with `easing`, or follows `spring` instead.
+ */
+export interface KeyframeTiming {
+  at: number;
+  easing?: EasingFunction;
+  spring?: SpringConfig;
+}
+
+export interface Keyframe extends KeyframeTiming {
+  value: number;
+}
+
+export interface KeyframeSegment {
+  /** Index of the keyframe the segment ends at. */
+  index: number;
+  /** Progress through the segment; may overshoot 0..1 with springs or elastic easing. */
+  progress: number;
+}
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+const DEFAULT_EASING = Easing.inOut(Easing.quad);
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Eased progress (0..1) of a `duration` ms tween, `t` ms after it starts. */
+export function progressAt(
+  t: number,
+  duration: number,
+  easing?: EasingFunction,
+): number {
+  'worklet';
+  if (t < 0) return 0;
+  if (t >= duration) return 1;
+  return (easing ?? DEFAULT_EASING)(t / duration);
+}
+
+/** Equivalent of `withTiming(to, { duration, easing })` starting at `from`. */
+export function timing(
+  t: number,
+  from: number,
+  to: number,
+  duration: number,
+  easing?: EasingFunction,
+): number {
+  'worklet';
+  return from + (to - from) * progressAt(t, duration, easing);
+}
+
+/**
+ * Equivalent of `withRepeat(withSequence(withTiming(to), withTiming(from)), -1)`
+ * with `legMs` per direction: sweeps from -> to -> from forever.
+ */
+export function pingPong(t: number, from: number, to: number, legMs: number): number {
+  'worklet';
+  if (legMs <= 0 || t <= 0) return from;
+  const phase = t % (2 * legMs);
+  return phase < legMs
+    ? timing(phase, from, to, legMs)
+    : timing(phase - legMs, to, from, legMs);
+}
+
+/**
+ * The segment of `frames` (sorted by `at`) that `t` falls in, and how far
+ * along it is. Before the first keyframe this is the start of the first
+ * segment; after the last, the end of the last one.
+ */
+export function keyframeSegment(t: number, frames: KeyframeTiming[]): KeyframeSegment {
+  'worklet';
+  if (frames.length < 2) return { index: 0, progress: 1 };
+  if (t <= frames[0].at) return { index: 1, progress: 0 };
+  let index = 1;
+  while (index < frames.length - 1 && t >= frames[index].at) index++;
+  const frame = frames[index];
+  if (t >= frame.at) return { index, progress: 1 };
+  const start = frames[index - 1].at;
+  const progress = frame.spring
+    ? spring(t - start, 0, 1, frame.spring)
+    : progressAt(t - start, frame.at - start, frame.easing);
+  return { index, progress };
+}
+
+/**
+ * Value at `t` of a property passing through `frames`, e.g. slam to 0,
+ * bounce back to 5, settle at 0, each segment with its own easing: the
+ * equivalent of `withSequence(withTiming(...), ...)`.
+ */
+export function keyframes(t: number, frames: Keyframe[]): number {
+  'worklet';
+  if (frames.length === 0) return 0;
+  const { index, progress } = keyframeSegment(t, frames);
+  if (index === 0) return frames[0].value;
+  const from = frames[index - 1].value;
+  return from + (frames[index].value - from) * progress;
+}
+
+/**
+ * Equivalent of `withSpring(to, config)` starting at rest at `from`.
+ * Closed-form solution of the damped harmonic oscillator.
+ */
+export function spring(t: number, from: number, to: number, config: SpringConfig): number {
+  'worklet';
+  if (t <= 0) return from;
+  const { damping, stiffness, mass } = config;
+  const s = t / 1000;
+  const x0 = from - to;
+  const omega = Math.sqrt(stiffness / mass);
+  const zeta = damping / (2 * Math.sqrt(stiffness * mass));
+
+  if (zeta < 1) {
+    const omegaD = omega * Math.sqrt(1 - zeta * zeta);
+    const envelope = Math.exp(-zeta * omega * s);
+    return (
+      to +
+      envelope *
+        (x0 * Math.cos(omegaD * s) + ((zeta * omega * x0) / omegaD) * Math.sin(omegaD * s))
+    );
+  }
+  if (zeta === 1) {
+    return to + (x0 + omega * x0 * s) * Math.exp(-omega * s);
+  }
+  const root = omega * Math.sqrt(zeta * zeta - 1);
+  const r1 = -zeta * omega + root;
+  const r2 = -zeta * omega - root;
+  return to + (x0 / (r2 - r1)) * (r2 * Math.exp(r1 * s) - r1 * Math.exp(r2 * s));
+}
+
+/**
+ * Time (ms) until a spring from rest has settled within `threshold` of its
+ * target, based on the decay of its envelope. 0 when it starts that close.
+ */
+export function springSettleMs(
+  config: SpringConfig,
+  distance: number,
+  threshold = 0.01,
+): number {
+  if (distance === 0) return 0;
+  const { damping, stiffness, mass } = config;
+  const omega = Math.sqrt(stiffness / mass);
+  const zeta = damping / (2 * Math.sqrt(stiffness * mass));
+  const decay = zeta < 1 ? zeta * omega : omega * (zeta - Math.sqrt(zeta * zeta - 1));
+  return Math.max(0, Math.ceil((Math.log(Math.abs(distance) / threshold) / decay) * 1000));
+}
@@ -0,0 +1,281 @@
+/**
+ * Playback — A single clock per animation, plus an optional controller.
+ *
+ * Every animation renders each unit as a function of elapsed time. This
+ * module owns that time: it advances it on the UI thread while playing,
+ * holds it while paused, jumps it on seek, and reports completion.
+ */
+
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import {
+  runOnJS,
+  useAnimatedReaction,
+  useDerivedValue,
+  useFrameCallback,
+  useSharedValue,
+} from 'react-native-reanimated';
+import type { FrameInfo, SharedValue } from 'react-native-reanimated';
+import type { ExitMode, PlaybackController } from './types';
+
+// ---------------------------------------------------------------------------
+// Controller
+// ---------------------------------------------------------------------------
+
+/**
+ * Creates a controller that can pause, resume and seek an animation.
+ * Pass it to a component through its `controller` prop.
+ */
+export function usePlaybackController(): PlaybackController {
+  const progress = useSharedValue(0);
+  const paused = useSharedValue(false);
+  const seekRequested = useSharedValue(false);
+
+  return useMemo(
+    () => ({
+      progress,
+      paused,
+      seekRequested,
+      pause: () => {
+        paused.value = true;
+      },
+      resume: () => {
+        paused.value = false;
+      },
+      seek: (position: number) => {
+        progress.value = Math.min(1, Math.max(0, position));
+        seekRequested.value = true;
+      },
+    }),
+    [progress, paused, seekRequested],
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Clock
+// ---------------------------------------------------------------------------
+
+/** What the clock is currently doing. */
+const PHASE = {
+  idle: 0,
+  playing: 1,
+  reversing: 2,
+  exiting: 3,
+} as const;
+
+const DEFAULT_HOLD_MS = 1000;
+
+export interface PlaybackClockOptions {
+  isPlaying: boolean;
+  /** Length of the entrance (ms); progress 1 maps to this time. */
+  durationMs: number;
+  /** Playback rate; 0.5 plays at half speed. Defaults to 1. */
+  speed?: number;
+  progress?: SharedValue<number>;
+  controller?: PlaybackController;
+  onComplete?: () => void;
+  /** How to leave when `isPlaying` becomes false. Defaults to `instant`. */
+  exit?: ExitMode;
+  /** Length of the custom exit (ms); only used with `exit: 'custom'`. */
+  exitDurationMs?: number;
+  onExitComplete?: () => void;
+  /** Replay the entrance after each hold (and exit). */
+  loop?: boolean;
+  /** Total number of plays while looping. Defaults to forever. */
+  repeatCount?: number;
+  /** Time to hold the settled entrance before looping (ms). Defaults to 1000. */
+  holdMs?: number;
+}
+
+export interface PlaybackClock {
+  /** Elapsed entrance time (ms). */
+  time: SharedValue<number>;
+  /** Time since the custom exit started (ms), or -1 when not exiting. */
+  exitTime: SharedValue<number>;
+}
+
+/**
+ * Returns the times that every unit of an animation reads.
+ *
+ * - With an external `progress`, time is `progress * durationMs` and the
+ *   clock never advances on its own.
+ * - Otherwise time starts at 0 when `isPlaying` becomes true and advances
+ *   every frame by the frame delta times `speed`, unless the `controller`
+ *   is paused. It keeps running past
+ *   `durationMs` so continuous effects (shimmer) stay alive.
+ * - With `loop`, once the entrance has settled and held for `holdMs` the
+ *   clock plays the exit and starts over, `repeatCount` times in total.
+ *   `onComplete` fires only after the last play.
+ * - When `isPlaying` becomes false the clock exits: `reverse` runs time
+ *   back down to 0, `custom` advances `exitTime` from 0 to
+ *   `exitDurationMs`, and `instant` snaps time back to 0 right away.
+ *   Either way it ends in the initial state and calls `onExitComplete`.
+ */
+export function usePlaybackClock({
+  isPlaying,
+  durationMs,
+  speed = 1,
+  progress,
+  controller,
+  onComplete,
+  exit = 'instant',
+  exitDurationMs = 0,
+  onExitComplete,
+  loop = false,
+  repeatCount = Infinity,
+  holdMs = DEFAULT_HOLD_MS,
+}: PlaybackClockOptions): PlaybackClock {
+  const elapsed = useSharedValue(0);
+  const exitTime = useSharedValue(-1);
+  const phase = useSharedValue<number>(PHASE.idle);
+  const duration = useSharedValue(durationMs);
+  const exitDuration = useSharedValue(exitDurationMs);
+  const exitMode = useSharedValue<ExitMode>(exit);
+  const hold = useSharedValue(holdMs);
+  const rate = useSharedValue(speed);
+  const completed = useSharedValue(false);
+  /** Plays left including the current one; 1 means this is the last. */
+  const playsLeft = useSharedValue(1);
+  /** Whether the running exit is a loop boundary rather than a real exit. */
+  const restartAfterExit = useSharedValue(false);
+  const isExternal = progress !== undefined;
+  const wasPlaying = useRef(false);
+  const totalPlays = loop ? Math.max(1, repeatCount) : 1;
+
+  const callbackRef = useRef(onComplete);
+  callbackRef.current = onComplete;
+  const notifyComplete = useCallback(() => callbackRef.current?.(), []);
+
+  const exitCallbackRef = useRef(onExitComplete);
+  exitCallbackRef.current = onExitComplete;
+  const finishExit = useCallback(() => {
+    frame.setActive(false);
+    exitCallbackRef.current?.();
+  }, []);
+
+  const paused = controller?.paused;
+  const seekRequested = controller?.seekRequested;
+  const reportedProgress = controller?.progress;
+
+  // Memoized so it registers once: every registration drops a frame's delta.
+  const onFrame = useCallback((info: FrameInfo) => {
+    'worklet';
+    if (seekRequested?.value && reportedProgress) {
+      elapsed.value = reportedProgress.value * duration.value;
+      seekRequested.value = false;
+    }
+    if (paused?.value) return;
+    const delta = (info.timeSincePreviousFrame ?? 0) * rate.value;
+
+    const endExit = () => {
+      exitTime.value = -1;
+      if (restartAfterExit.value) {
+        restartAfterExit.value = false;
+        elapsed.value = 0;
+        phase.value = PHASE.playing;
+        return;
+      }
+      elapsed.value = 0;
+      phase.value = PHASE.idle;
+      runOnJS(finishExit)();
+    };
+
+    if (phase.value === PHASE.playing) {
+      elapsed.value += delta;
+      if (playsLeft.value > 1 && elapsed.value >= duration.value + hold.value) {
+        playsLeft.value -= 1;
+        if (exitMode.value === 'reverse') {
+          phase.value = PHASE.reversing;
+          restartAfterExit.value = true;
+        } else if (exitMode.value === 'custom') {
+          phase.value = PHASE.exiting;
+          exitTime.value = 0;
+          restartAfterExit.value = true;
+        } else {
+          elapsed.value = 0;
+        }
+      }
+    } else if (phase.value === PHASE.reversing) {
+      elapsed.value = Math.max(0, Math.min(elapsed.value, duration.value) - delta);
+      if (elapsed.value === 0) endExit();
+    } else if (phase.value === PHASE.exiting) {
+      elapsed.value += delta;
+      exitTime.value += delta;
+      if (exitTime.value >= exitDuration.value) endExit();
+    }
+
+    if (reportedProgress) {
+      reportedProgress.value =
+        duration.value > 0 ? Math.min(1, elapsed.value / duration.value) : 1;
+    }
+  }, [paused, seekRequested, reportedProgress, finishExit]);
+  const frame = useFrameCallback(onFrame, false);
+
+  useEffect(() => {
+    duration.value = durationMs;
+  }, [durationMs]);
+
+  useEffect(() => {
+    exitDuration.value = exitDurationMs;
+  }, [exitDurationMs]);
+
+  useEffect(() => {
+    exitMode.value = exit;
+  }, [exit]);
+
+  useEffect(() => {
+    hold.value = holdMs;
+  }, [holdMs]);
+
+  useEffect(() => {
+    rate.value = speed;
+  }, [speed]);
+
+  useEffect(() => {
+    // Turning the loop off mid-play makes the current play the last one.
+    if (isPlaying && !isExternal) playsLeft.value = totalPlays;
+  }, [totalPlays]);
+
+  useEffect(() => {
+    const startExit = wasPlaying.current && !isPlaying && !isExternal;
+    wasPlaying.current = isPlaying;
+    completed.value = false;
+    restartAfterExit.value = false;
+
+    if (startExit && exit === 'reverse') {
+      phase.value = PHASE.reversing;
+      frame.setActive(true);
+      return;
+    }
+    if (startExit && exit === 'custom') {
+      phase.value = PHASE.exiting;
+      exitTime.value = 0;
+      frame.setActive(true);
+      return;
+    }
+
+    elapsed.value = 0;
+    exitTime.value = -1;
+    playsLeft.value = isExternal ? 1 : totalPlays;
+    phase.value = isPlaying && !isExternal ? PHASE.playing : PHASE.idle;
+    if (reportedProgress && !isExternal) reportedProgress.value = 0;
+    frame.setActive(isPlaying && !isExternal);
+    if (startExit) exitCallbackRef.current?.();
+  }, [isPlaying, isExternal]);
+
+  const time = useDerivedValue(() =>
+    progress ? progress.value * duration.value : elapsed.value,
+  );
+
+  useAnimatedReaction(
+    () => time.value >= duration.value && playsLeft.value === 1,
+    (done) => {
+      if (!done || completed.value) return;
+      if (!isPlaying && !isExternal) return;
+      completed.value = true;
+      runOnJS(notifyComplete)();
+    },
+    [isPlaying, isExternal],
+  );
+
+  return { time, exitTime };
+}
@@ -0,0 +1,77 @@
+/**
+ * Presets — Named easings and springs shared across animations.
+ *
+ * A spec, a `motion` prop or a theme can say `'snappy'` instead of
+ * `{ out: { poly: 5 } }`, so a design system can name its motion tokens
+ * once and reuse them everywhere. Names are plain strings, so specs that
+ * use them stay serializable.
+ */
+
+import type { EasingSpec } from './easing';
+import type { SpringConfig } from './motion';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type EasingPreset =
+  | 'gentle'
+  | 'smooth'
+  | 'brisk'
+  | 'snappy'
+  | 'overshoot'
+  | 'elastic'
+  | 'gentleIn'
+  | 'smoothIn'
+  | 'standard'
+  | 'emphasized'
+  | 'decelerate'
+  | 'accelerate';
+
+export type SpringPreset = 'gentle' | 'snappy' | 'overshoot' | 'elastic' | 'stiff';
+
+/** A spring preset name or a custom spring. */
+export type SpringSpec = SpringPreset | SpringConfig;
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+export const EASING_PRESETS: Record<EasingPreset, EasingSpec> = {
+  // Entrances: decelerate into place, softest to sharpest.
+  gentle: { out: 'quad' },
+  smooth: { out: { poly: 3 } },
+  brisk: { out: { poly: 4 } },
+  snappy: { out: { poly: 5 } },
+  overshoot: { out: { back: 1.7 } },
+  elastic: { out: { elastic: 1.5 } },
+  // Exits: accelerate away.
+  gentleIn: { in: 'quad' },
+  smoothIn: { in: { poly: 3 } },
+  // Cubic-bezier curves matching common design-system tokens.
+  standard: { bezier: [0.4, 0, 0.2, 1] },
+  emphasized: { bezier: [0.2, 0, 0, 1] },
+  decelerate: { bezier: [0, 0, 0.2, 1] },
+  accelerate: { bezier: [0.3, 0, 1, 1] },
+};
+
+export const SPRING_PRESETS: Record<SpringPreset, SpringConfig> = {
+  gentle: { damping: 20, stiffness: 120, mass: 1 },
+  snappy: { damping: 14, stiffness: 300, mass: 0.6 },
+  overshoot: { damping: 10, stiffness: 220, mass: 0.8 },
+  elastic: { damping: 8, stiffness: 280, mass: 0.5 },
+  stiff: { damping: 26, stiffness: 400, mass: 0.8 },
+};
+
+// ---------------------------------------------------------------------------
+// Resolving
+// ---------------------------------------------------------------------------
+
+export function isEasingPreset(name: string): name is EasingPreset {
+  return Object.prototype.hasOwnProperty.call(EASING_PRESETS, name);
+}
+
+/** The spring `spec` describes. */
+export function springFor(spec: SpringSpec): SpringConfig {
+  return typeof spec === 'string' ? SPRING_PRESETS[spec] : spec;
+}
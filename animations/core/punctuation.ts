@@ -0,0 +1,122 @@
+/**
+ * Punctuation — Which unit endings pause the stagger, and for how long.
+ *
+ * A rule table maps endings (`.`, `…`, `。`) to a pause. Pauses can be
+ * `long` or `short`, which resolve to the animation's `punctPauseLong` /
+ * `punctPauseShort`, or an explicit number of ms. Rules are checked in
+ * order and the first match wins, so list longer endings (`...`) before
+ * their prefixes (`.`). Closing quotes and brackets are skipped, so `end."`
+ * and `(wow!)` pause like `end.` and `wow!`.
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type PunctuationPause = 'long' | 'short' | number;
+
+export interface PunctuationRule {
+  /** Unit endings that trigger this pause. */
+  endings: string[];
+  pause: PunctuationPause;
+}
+
+export type PunctuationRules = PunctuationRule[];
+
+export type PunctuationLocale = 'en' | 'fr' | 'es' | 'de' | 'ja' | 'zh' | 'ko' | 'ar' | 'he' | 'hi';
+
+// ---------------------------------------------------------------------------
+// Presets
+// ---------------------------------------------------------------------------
+
+/** Quotes and brackets that may follow the punctuation that ends a unit. */
+export const CLOSING_MARKS = '"\'”’»›)]}」』）】〕〉》';
+
+const LATIN: PunctuationRules = [
+  { endings: ['...', '…'], pause: 'long' },
+  { endings: ['.', '!', '?'], pause: 'long' },
+  { endings: [';', ':', '—', '–'], pause: 'short' },
+  { endings: [','], pause: 'short' },
+];
+
+/** Full-width marks used in Chinese and Japanese. */
+const CJK_MARKS: PunctuationRules = [
+  { endings: ['……'], pause: 'long' },
+  { endings: ['。', '！', '？', '｡'], pause: 'long' },
+  { endings: ['；', '：', '——'], pause: 'short' },
+  { endings: ['、', '，', '､'], pause: 'short' },
+];
+
+const ARABIC_MARKS: PunctuationRules = [
+  { endings: ['؟', '۔'], pause: 'long' },
+  { endings: ['؛', '،'], pause: 'short' },
+];
+
+const DEVANAGARI_MARKS: PunctuationRules = [{ endings: ['॥', '।'], pause: 'long' }];
+
+const CJK = [...CJK_MARKS, ...LATIN];
+const ARABIC = [...ARABIC_MARKS, ...LATIN];
+const DEVANAGARI = [...DEVANAGARI_MARKS, ...LATIN];
+
+export const PUNCTUATION_PRESETS: Record<PunctuationLocale, PunctuationRules> = {
+  en: LATIN,
+  fr: LATIN,
+  es: LATIN,
+  de: LATIN,
+  ja: CJK,
+  zh: CJK,
+  ko: LATIN,
+  ar: ARABIC,
+  he: LATIN,
+  hi: DEVANAGARI,
+};
+
+/** Every mark above, so mixed-script text pauses without configuration. */
+export const DEFAULT_PUNCTUATION: PunctuationRules = [
+  ...CJK_MARKS,
+  ...ARABIC_MARKS,
+  ...DEVANAGARI_MARKS,
+  ...LATIN,
+];
+
+/**
+ * Preset for a BCP 47 locale such as `ja-JP` or `zh-Hant`, matched on
+ * the language subtag. Unknown languages get the default rules.
+ */
+export function punctuationRulesFor(locale: string): PunctuationRules {
+  const language = locale.toLowerCase().split(/[-_]/)[0] as PunctuationLocale;
+  return PUNCTUATION_PRESETS[language] ?? DEFAULT_PUNCTUATION;
+}
+
+// ---------------------------------------------------------------------------
+// Matching
+// ---------------------------------------------------------------------------
+
+function stripClosingMarks(text: string): string {
+  let end = text.length;
+  while (end > 0 && CLOSING_MARKS.includes(text[end - 1])) end--;
+  return text.slice(0, end);
+}
+
+/** The rule matching the end of `text`, ignoring closing quotes and brackets. */
+export function matchPunctuation(
+  text: string,
+  rules: PunctuationRules = DEFAULT_PUNCTUATION,
+): PunctuationRule | undefined {
+  const stripped = stripClosingMarks(text);
+  if (stripped.length === 0) return undefined;
+  return rules.find((rule) => rule.endings.some((ending) => stripped.endsWith(ending)));
+}
+
+/**
+ * Whether `char` could still extend a punctuation ending, e.g. the second
+ * `.` of `...` or a closing quote. Character units defer their pause
+ * until the run is over.
+ */
+export function continuesPunctuation(
+  char: string,
+  rules: PunctuationRules = DEFAULT_PUNCTUATION,
+): boolean {
+  if (CLOSING_MARKS.includes(char)) return true;
+  return rules.some((rule) => rule.endings.some((ending) => ending.includes(char)));
+}
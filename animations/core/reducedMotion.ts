@@ -0,0 +1,37 @@
+/**
+ * Reduced Motion — Follows the OS "reduce motion" setting.
+ *
+ * When it is on, `SpecAnimation` plays the spec's reduced-motion variant
+ * (see `reducedMotionSpec` in `core/spec.ts`) instead of its tracks. The
+ * `reduceMotion` prop or theme value forces either behavior.
+ */
+
+import { useEffect, useState } from 'react';
+import { AccessibilityInfo } from 'react-native';
+import { useReducedMotion } from 'react-native-reanimated';
+
+/**
+ * Whether to play the reduced-motion variant: `override` when set,
+ * otherwise the OS setting, kept up to date while mounted.
+ */
+export function useReduceMotion(override?: boolean): boolean {
+  // Reanimated reads the setting synchronously at startup, so the first
+  // frame already uses the right variant.
+  const atStartup = useReducedMotion();
+  const [system, setSystem] = useState(atStartup);
+
+  useEffect(() => {
+    if (override !== undefined) return;
+    let mounted = true;
+    AccessibilityInfo.isReduceMotionEnabled().then((enabled) => {
+      if (mounted) setSystem(enabled);
+    });
+    const subscription = AccessibilityInfo.addEventListener('reduceMotionChanged', setSystem);
+    return () => {
+      mounted = false;
+      subscription.remove();
+    };
+  }, [override]);
+
+  return override ?? system;
+}
@@ -0,0 +1,308 @@
+/**
+ * Segmentation — Splits runs of text without spaces into words.
+ *
+ * Word-level animations split text on whitespace first. Chinese, Japanese
+ * and Thai don't put spaces between words, so each whitespace-free run is
+ * then handed to a `WordSegmenter`. The built-in segmenters are rule-based
+ * approximations that need no dictionary; pass your own (e.g. one backed
+ * by a dictionary or a server-side tokenizer) for exact word boundaries.
+ */
+
+import { splitGraphemes } from './graphemes';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Splits a run of non-whitespace text into the words to animate. */
+export type WordSegmenter = (run: string) => string[];
+
+// ---------------------------------------------------------------------------
+// Tables
+// ---------------------------------------------------------------------------
+
+type Range = readonly [number, number];
+
+const HAN: Range[] = [
+  [0x3400, 0x4dbf],
+  [0x4e00, 0x9fff],
+  [0xf900, 0xfaff],
+  [0x20000, 0x2ffff],
+];
+const HIRAGANA: Range = [0x3040, 0x309f];
+const KATAKANA: Range[] = [
+  [0x30a0, 0x30ff],
+  [0x31f0, 0x31ff],
+  [0xff66, 0xff9f],
+];
+const THAI: Range = [0x0e00, 0x0e7f];
+
+/** Punctuation that belongs to the text before it, e.g. 、。」 */
+const CLOSING = '、。，．！？：；」』）】〕〉》〟”’.,!?:;)]}…';
+/** Punctuation that belongs to the text after it, e.g. 「 */
+const OPENING = '「『（【〔〈《〝“‘([{';
+
+/** Thai vowels written before the consonant they follow in speech. */
+const THAI_LEADING_VOWELS: Range = [0x0e40, 0x0e44];
+const THAI_CONSONANTS: Range = [0x0e01, 0x0e2e];
+/** Vowels written after or around the consonant (sara a, aa, am, lakkhangyao). */
+const THAI_FOLLOWING_VOWELS = [0x0e30, 0x0e32, 0x0e33, 0x0e45];
+/** Vowels written above or below their consonant. */
+const THAI_VOWEL_MARKS = [
+  0x0e31, 0x0e34, 0x0e35, 0x0e36, 0x0e37, 0x0e38, 0x0e39, 0x0e3a, 0x0e47,
+];
+/** ร ล ว form initial clusters (e.g. คร, ปล, กว) with the consonant before. */
+const THAI_CLUSTER_SECONDS = [0x0e23, 0x0e25, 0x0e27];
+/** ก ข ค ต ท ป ผ พ, the consonants that lead such clusters. */
+const THAI_CLUSTER_FIRSTS = [0x0e01, 0x0e02, 0x0e04, 0x0e15, 0x0e17, 0x0e1b, 0x0e1c, 0x0e1e];
+/** Sara am (ำ), a vowel with its own final "m": it closes the syllable. */
+const THAI_SARA_AM = '\u0e33';
+/** อ, a silent consonant that also serves as the vowel "o". */
+const THAI_O_ANG = 0x0e2d;
+/** ย and อ complete the เ-ีย / เ-ือ vowels rather than closing the syllable. */
+const THAI_VOWEL_CONSONANTS = [0x0e22, 0x0e2d];
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function inRange(cp: number, [start, end]: Range): boolean {
+  return cp >= start && cp <= end;
+}
+
+function first(grapheme: string): number {
+  return grapheme.codePointAt(0) ?? 0;
+}
+
+function isHan(cp: number): boolean {
+  return HAN.some((r) => inRange(cp, r));
+}
+
+function isKana(cp: number): boolean {
+  return inRange(cp, HIRAGANA) || KATAKANA.some((r) => inRange(cp, r));
+}
+
+function isCJK(cp: number): boolean {
+  return isHan(cp) || isKana(cp);
+}
+
+function isThai(cp: number): boolean {
+  return inRange(cp, THAI);
+}
+
+interface ThaiSyllable {
+  leading: boolean;
+  initials: number;
+  /** The first initial consonant. */
+  initial: number;
+  vowel: boolean;
+  /** The last consonant carried a vowel mark. */
+  marked: boolean;
+  final: boolean;
+}
+
+function emptySyllable(): ThaiSyllable {
+  return { leading: false, initials: 0, initial: 0, vowel: false, marked: false, final: false };
+}
+
+function hasThaiVowelMark(grapheme: string): boolean {
+  for (const ch of grapheme.slice(1)) {
+    if (THAI_VOWEL_MARKS.includes(ch.codePointAt(0) ?? 0)) return true;
+  }
+  return false;
+}
+
+/**
+ * A consonant that would close the syllable opens the next one instead
+ * when the following grapheme is a vowel (มา, ก่อ) or completes a cluster
+ * with it (ครั). Other consonants close it: ความ, then รัก.
+ */
+function opensNext(cp: number, next: string | undefined): boolean {
+  if (next === undefined) return false;
+  const nextCp = first(next);
+  if (THAI_FOLLOWING_VOWELS.includes(nextCp) || nextCp === THAI_O_ANG) return true;
+  return (
+    THAI_CLUSTER_FIRSTS.includes(cp) &&
+    THAI_CLUSTER_SECONDS.includes(nextCp) &&
+    hasThaiVowelMark(next)
+  );
+}
+
+/** Adds a grapheme to the syllable, or returns false if it starts a new one. */
+function extendsSyllable(
+  syllable: ThaiSyllable,
+  grapheme: string,
+  next: string | undefined,
+): boolean {
+  const cp = first(grapheme);
+  const isEmpty = !syllable.leading && syllable.initials === 0 && !syllable.vowel;
+
+  if (inRange(cp, THAI_LEADING_VOWELS)) {
+    if (!isEmpty) return false;
+    syllable.leading = true;
+    return true;
+  }
+  if (inRange(cp, THAI_CONSONANTS)) {
+    const marked = hasThaiVowelMark(grapheme);
+    const closed = grapheme.includes(THAI_SARA_AM);
+    if (syllable.leading && syllable.initials === 0) {
+      syllable.initials = 1;
+      syllable.initial = cp;
+      syllable.vowel = true;
+      syllable.marked = marked;
+      return true;
+    }
+    if (!syllable.vowel) {
+      if (syllable.initials >= 2) return false;
+      syllable.initials++;
+      if (syllable.initials === 1) syllable.initial = cp;
+      // อ after an initial consonant is the vowel "o" (ขอ, รอ).
+      syllable.vowel = marked || closed || (syllable.initials === 2 && cp === THAI_O_ANG);
+      syllable.marked = marked;
+      syllable.final = closed;
+      return true;
+    }
+    // A leading vowel wraps the whole initial cluster: เคลื่อน, เพราะ.
+    if (
+      syllable.leading &&
+      syllable.initials === 1 &&
+      !syllable.marked &&
+      !syllable.final &&
+      THAI_CLUSTER_FIRSTS.includes(syllable.initial) &&
+      THAI_CLUSTER_SECONDS.includes(cp)
+    ) {
+      syllable.initials = 2;
+      syllable.marked = marked;
+      return true;
+    }
+    if (syllable.final || marked || closed || opensNext(cp, next)) return false;
+    if (syllable.leading && syllable.marked && THAI_VOWEL_CONSONANTS.includes(cp)) {
+      syllable.marked = false;
+      return true;
+    }
+    syllable.final = true;
+    return true;
+  }
+  if (THAI_FOLLOWING_VOWELS.includes(cp)) syllable.vowel = true;
+  return true;
+}
+
+/**
+ * Groups graphemes into pieces. `startsPiece` decides whether a grapheme
+ * begins a new piece; opening punctuation always sticks to what follows
+ * and closing punctuation to what precedes.
+ */
+function group(
+  run: string,
+  startsPiece: (grapheme: string, piece: string[]) => boolean,
+): string[] {
+  const pieces: string[] = [];
+  let piece: string[] = [];
+  let pendingOpen = '';
+
+  for (const g of splitGraphemes(run)) {
+    if (OPENING.includes(g)) {
+      pendingOpen += g;
+      continue;
+    }
+    const closes = CLOSING.includes(g);
+    if (piece.length > 0 && !closes && startsPiece(g, piece)) {
+      pieces.push(piece.join(''));
+      piece = [];
+    }
+    if (pendingOpen) {
+      piece.push(pendingOpen);
+      pendingOpen = '';
+    }
+    piece.push(g);
+  }
+  if (pendingOpen) piece.push(pendingOpen);
+  if (piece.length > 0) pieces.push(piece.join(''));
+
+  return pieces;
+}
+
+/** Latin letters, digits and the like stay together inside CJK text. */
+function continuesNonCJK(g: string, piece: string[]): boolean {
+  const last = piece[piece.length - 1];
+  const prev = first(last);
+  return !isCJK(first(g)) && !isCJK(prev) && !isThai(prev) && !CLOSING.includes(last);
+}
+
+// ---------------------------------------------------------------------------
+// Segmenters
+// ---------------------------------------------------------------------------
+
+/** Keeps each whitespace-separated run as one word. */
+export const spaceSegmenter: WordSegmenter = (run) => [run];
+
+/** One piece per Han / kana character; punctuation stays attached. */
+export const cjkCharSegmenter: WordSegmenter = (run) =>
+  group(run, (g, piece) => !continuesNonCJK(g, piece));
+
+/**
+ * Phrase-sized pieces. Japanese breaks after trailing hiragana (particles
+ * and okurigana), so 今日は / 晴れです stay whole. Han-only text such as
+ * Chinese is chunked in pairs, the most common word length.
+ */
+export const cjkPhraseSegmenter: WordSegmenter = (run) =>
+  group(run, (g, piece) => {
+    if (CLOSING.includes(piece[piece.length - 1])) return true;
+    if (continuesNonCJK(g, piece)) return false;
+    const cp = first(g);
+    const prev = first(piece[piece.length - 1]);
+    if (inRange(cp, HIRAGANA)) return !isCJK(prev);
+    if (inRange(prev, HIRAGANA)) return true;
+    if (isKana(cp) !== isKana(prev)) return true;
+    if (isHan(cp) && piece.every((p) => isHan(first(p)))) return piece.length >= 2;
+    return false;
+  });
+
+/**
+ * Syllable-sized pieces for Thai. A syllable is a leading vowel, up to two
+ * initial consonants, a vowel and one final consonant; anything beyond
+ * that starts the next piece. Vowel and tone marks ride on their consonant.
+ * For example `'การเคลื่อนไหวสร้างจุดสนใจ'` gives
+ * `['การ', 'เคลื่อน', 'ไหว', 'สร้าง', 'จุด', 'สน', 'ใจ']`.
+ */
+export const thaiSegmenter: WordSegmenter = (run) => {
+  const pieces: string[] = [];
+  let piece = '';
+  let lastThai = false;
+  let syllable: ThaiSyllable = emptySyllable();
+
+  const graphemes = splitGraphemes(run);
+  graphemes.forEach((g, i) => {
+    const next = graphemes[i + 1];
+    const thai = isThai(first(g));
+    let starts: boolean;
+    if (piece.length === 0 || CLOSING.includes(g)) starts = false;
+    else if (thai !== lastThai) starts = true;
+    else starts = thai && !extendsSyllable(syllable, g, next);
+
+    if (starts) {
+      pieces.push(piece);
+      piece = '';
+      syllable = emptySyllable();
+    }
+    if (piece.length === 0 && thai) extendsSyllable(syllable, g, next);
+    piece += g;
+    lastThai = thai;
+  });
+  if (piece.length > 0) pieces.push(piece);
+
+  return pieces;
+};
+
+/**
+ * Picks a segmenter per run: Thai rules for Thai, per-character for
+ * Chinese and Japanese, and whole runs for everything else.
+ */
+export const autoSegmenter: WordSegmenter = (run) => {
+  for (const ch of run) {
+    const cp = ch.codePointAt(0) ?? 0;
+    if (isThai(cp)) return thaiSegmenter(run);
+    if (isCJK(cp)) return cjkCharSegmenter(run);
+  }
+  return [run];
+};
@@ -0,0 +1,576 @@
+/**
+ * Spec — Animations described as data.
+ *
+ * An `AnimationSpec` says how the text is split and staggered, which
+ * properties each unit animates, and how units leave. It is plain JSON (no
+ * functions), so a spec can be saved, shared or edited at runtime and still
+ * render exactly like a hand-written animation. `SpecAnimation` in
+ * `core/specAnimation.tsx` renders any spec; every animation in this folder
+ * is a spec plus that renderer.
+ */
+
+import type { TextStyle } from 'react-native';
+import { computeTimeline } from './timeline';
+import type {
+  TextToken,
+  Timeline,
+  TimelinePauses,
+  TimelineSettings,
+  TimelineUnitKind,
+} from './timeline';
+import { springSettleMs } from './motion';
+import { longTextSettings, resolveLongText } from './longText';
+import { parseMarkup } from './markup';
+import { resolveEmphasis, scheduleEmphasis } from './emphasis';
+import type { EmphasisSelector } from './emphasis';
+import type { EasingSpec } from './easing';
+import { springFor } from './presets';
+import type { SpringSpec } from './presets';
+import type { DurationOptions } from './types';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type TransformProperty =
+  | 'translateX'
+  | 'translateY'
+  | 'scale'
+  | 'scaleX'
+  | 'scaleY'
+  | 'rotate'
+  | 'skewX'
+  | 'skewY';
+
+export type NumericProperty = TransformProperty | 'opacity' | 'textShadowRadius';
+
+export type ColorProperty = 'color' | 'textShadowColor';
+
+export type AnimatedProperty = NumericProperty | ColorProperty;
+
+/**
+ * A literal color, or the instance's text or accent color (from
+ * `textStyle` / `accentColor`, the theme or `typography`), optionally with
+ * its alpha replaced.
+ */
+export type ColorSpec = string | { token: 'text' | 'accent'; alpha?: number };
+
+/**
+ * A number, or one that grows with the unit's crescendo intensity (0..1):
+ * `base + perIntensity * intensity`.
+ */
+export type NumberSpec = number | { base: number; perIntensity: number };
+
+interface TrackBase {
+  /** Start this long after the unit does (ms). */
+  delayMs?: number;
+  /** Flip the value for right-to-left text. Use for horizontal motion and skews. */
+  mirror?: boolean;
+}
+
+/** `from` -> `to` over `durationMs`. */
+export interface TweenTrack extends TrackBase {
+  type: 'tween';
+  property: AnimatedProperty;
+  from: NumberSpec | ColorSpec;
+  to: NumberSpec | ColorSpec;
+  durationMs: number;
+  /** Defaults to `{ inOut: 'quad' }`, like `withTiming`. */
+  easing?: EasingSpec;
+}
+
+/** A keyframe position as a share of the track's `durationMs`, e.g. `'60%'`. */
+export type KeyframePercent = `${number}%`;
+
+export interface KeyframeSpec {
+  /**
+   * When `value` is reached: ms after the track starts, or a percentage of
+   * `durationMs`. Optional after a spring keyframe's predecessor: it then
+   * defaults to when the spring has settled.
+   */
+  at?: number | KeyframePercent;
+  value: NumberSpec | ColorSpec;
+  /** Easing of the segment ending here. Defaults to `{ inOut: 'quad' }`. */
+  easing?: EasingSpec;
+  /** Spring for the segment ending here, instead of an easing. */
+  spring?: SpringSpec;
+}
+
+/**
+ * Passes through each keyframe in turn, e.g. slam to 0, bounce back to 5,
+ * settle at 0. The first keyframe is the starting value.
+ */
+export interface KeyframesTrack extends TrackBase {
+  type: 'keyframes';
+  property: AnimatedProperty;
+  /** What percentage positions are relative to (ms). */
+  durationMs?: number;
+  keyframes: KeyframeSpec[];
+}
+
+/** A spring from rest at `from` to `to`. */
+export interface SpringTrack extends TrackBase {
+  type: 'spring';
+  property: NumericProperty;
+  from: number;
+  to: number;
+  spring: SpringSpec;
+}
+
+/**
+ * One eased progress (0..1) over `durationMs`, mapped through `stops`:
+ * at progress `at` the value is `value`, linear in between.
+ */
+export interface StopsTrack extends TrackBase {
+  type: 'stops';
+  property: AnimatedProperty;
+  durationMs: number;
+  easing?: EasingSpec;
+  stops: { at: number; value: NumberSpec | ColorSpec }[];
+}
+
+export type Track = TweenTrack | KeyframesTrack | SpringTrack | StopsTrack;
+
+/** Per-property amounts added as a unit leaves (`leave` 0 -> 1). */
+export type ExitOffsets = Partial<Record<NumericProperty, number>>;
+
+export interface ExitSpec {
+  staggerMs: number;
+  durationMs: number;
+  offsetMs?: number;
+  /** Defaults to `{ inOut: 'quad' }`. */
+  easing?: EasingSpec;
+  /**
+   * - `fade` (default): units fade out.
+   * - `rewind`: tween and stops tracks play back to their start.
+   * Either way `offsets` are added on top.
+   */
+  style?: 'fade' | 'rewind';
+  offsets?: ExitOffsets;
+}
+
+/** A color sweep that passes over the units from first to last and back. */
+export interface ShimmerSpec {
+  /** Time the sweep takes per word, each way (ms). */
+  legMsPerWord: number;
+  /** How fast the color falls off with distance from the sweep (per word). */
+  falloff: number;
+  /** Character units: how many word-widths the characters are spread over. */
+  charSpread?: number;
+}
+
+/**
+ * Gives each unit an intensity that rises from near 0 to 1 toward the next
+ * unit ending in one of `marks`; `NumberSpec` values scale with it.
+ */
+export interface CrescendoSpec {
+  marks: string;
+}
+
+/** Extra tracks played on chosen units once they have entered. */
+export interface EmphasisSpec {
+  /** Default choice of units; the `emphasis` prop replaces it. */
+  select: EmphasisSelector;
+  /** Time from a unit's start to its emphasis. */
+  delayMs: number;
+  /** Minimum time between two emphasized units. */
+  staggerMs: number;
+  tracks: Track[];
+  /** Added to the emphasis tracks as the unit leaves. */
+  exitOffsets?: ExitOffsets;
+  /** Static style of emphasized units, e.g. a heavier weight. */
+  style?: TextStyle;
+}
+
+/** The blinking cursor of the `type` reveal. */
+export interface CursorSpec {
+  char: string;
+  /** Time per fade, out and in (ms). */
+  blinkMs: number;
+}
+
+/**
+ * The variant played when motion is reduced: the whole text fades in and
+ * out at once, with no movement, stagger or shimmer.
+ */
+export interface ReducedMotionSpec {
+  /** Fade duration (ms); 0 shows and hides the text instantly. */
+  fadeMs: number;
+}
+
+export interface SpecTypography {
+  fontSize: number;
+  fontWeight: TextStyle['fontWeight'];
+  color: string;
+  accentColor: string;
+}
+
+export interface AnimationSpec {
+  name: string;
+  unit: TimelineUnitKind;
+  staggerMs: number;
+  /** How long one unit takes. Defaults to when its slowest track settles. */
+  unitDurationMs?: number;
+  offsetMs?: number;
+  groupBreak?: TimelineSettings['groupBreak'];
+  /** Default of the `punctuationDelay` prop. */
+  punctuationDelay: boolean;
+  pauses?: TimelinePauses;
+  /** Defaults to `DEFAULT_TYPOGRAPHY`, key by key. */
+  typography?: Partial<SpecTypography>;
+  /**
+   * - `animate` (default): each unit plays `tracks`.
+   * - `type`: units are typed out whole, followed by `cursor`; the exit
+   *   deletes them again from the end.
+   */
+  reveal?: 'animate' | 'type';
+  /** Transform tracks apply in the order listed. */
+  tracks: Track[];
+  exit: ExitSpec;
+  shimmer?: ShimmerSpec;
+  crescendo?: CrescendoSpec;
+  emphasis?: EmphasisSpec;
+  cursor?: CursorSpec;
+  /** Defaults to `DEFAULT_REDUCED_MOTION`. */
+  reducedMotion?: ReducedMotionSpec;
+}
+
+/** One moment of a multi-property keyframe animation (see `keyframeTracks`). */
+export interface KeyframeBlock {
+  at: number | KeyframePercent;
+  /** Values reached at `at`; properties left out have no keyframe here. */
+  values: Partial<Record<AnimatedProperty, NumberSpec | ColorSpec>>;
+  easing?: EasingSpec;
+  spring?: SpringSpec;
+}
+
+export interface KeyframeAnimation {
+  /** What percentage positions are relative to (ms). */
+  durationMs?: number;
+  keyframes: KeyframeBlock[];
+  /** Start some properties later than the others (ms). */
+  delays?: Partial<Record<AnimatedProperty, number>>;
+  /** Properties to flip for right-to-left text. */
+  mirror?: AnimatedProperty[];
+}
+
+/** Easing and spring replacing those of every track in one phase. */
+export interface PhaseMotion {
+  /** Replaces the easing of tween and stops tracks and of eased keyframes. */
+  easing?: EasingSpec;
+  /** Replaces the spring of spring tracks and of spring keyframes. */
+  spring?: SpringSpec;
+}
+
+/**
+ * Motion overrides per phase, e.g. `{ enter: { easing: 'snappy' } }`:
+ * `enter` applies to `tracks`, `emphasis` to the emphasis tracks and
+ * `exit` to the exit's easing.
+ */
+export interface SpecMotion {
+  enter?: PhaseMotion;
+  emphasis?: PhaseMotion;
+  exit?: Pick<PhaseMotion, 'easing'>;
+}
+
+/** `DurationOptions` plus the units to emphasize, for specs with `emphasis`. */
+export interface SpecDurationOptions extends DurationOptions {
+  emphasis?: EmphasisSelector | RegExp;
+}
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+export const DEFAULT_TYPOGRAPHY: SpecTypography = {
+  fontSize: 20,
+  fontWeight: '600',
+  color: '#000000',
+  accentColor: '#FC2D50',
+};
+
+const DEFAULT_CURSOR: CursorSpec = { char: '|', blinkMs: 400 };
+
+export const DEFAULT_REDUCED_MOTION: ReducedMotionSpec = { fadeMs: 200 };
+
+const TRANSFORM_PROPERTIES: readonly string[] = [
+  'translateX',
+  'translateY',
+  'scale',
+  'scaleX',
+  'scaleY',
+  'rotate',
+  'skewX',
+  'skewY',
+];
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+export function isTransformProperty(property: AnimatedProperty): property is TransformProperty {
+  return TRANSFORM_PROPERTIES.includes(property);
+}
+
+export function isColorProperty(property: AnimatedProperty): property is ColorProperty {
+  return property === 'color' || property === 'textShadowColor';
+}
+
+export function specTypography(spec: AnimationSpec): SpecTypography {
+  return { ...DEFAULT_TYPOGRAPHY, ...spec.typography };
+}
+
+/**
+ * Crescendo intensity per unit: within each run ending in one of `marks`
+ * (or the text's end), the k-th of n units gets k / n.
+ */
+export function crescendoIntensities(units: TextToken[], marks: string): number[] {
+  const intensities: number[] = new Array(units.length).fill(0);
+  let groupStart = 0;
+  for (let i = 0; i < units.length; i++) {
+    const last = units[i].text.slice(-1);
+    if ((last !== '' && marks.includes(last)) || i === units.length - 1) {
+      const groupSize = i - groupStart + 1;
+      for (let j = groupStart; j <= i; j++) {
+        intensities[j] = (j - groupStart + 1) / groupSize;
+      }
+      groupStart = i + 1;
+    }
+  }
+  return intensities;
+}
+
+export function specCursor(spec: AnimationSpec): CursorSpec {
+  return spec.cursor ?? DEFAULT_CURSOR;
+}
+
+function baseNumber(value: NumberSpec | ColorSpec): number {
+  if (typeof value === 'number') return value;
+  return typeof value === 'object' && 'base' in value ? value.base : 0;
+}
+
+/** When each keyframe of `track` is reached, in ms after the track starts. */
+export function keyframeTimes(track: KeyframesTrack): number[] {
+  const times: number[] = [];
+  track.keyframes.forEach((frame, i) => {
+    const previous = times[i - 1] ?? 0;
+    let at: number;
+    if (typeof frame.at === 'number') {
+      at = frame.at;
+    } else if (frame.at !== undefined) {
+      at = (parseFloat(frame.at) / 100) * (track.durationMs ?? 0);
+    } else if (frame.spring && i > 0) {
+      // Colors spring through a 0..1 progress.
+      const distance = isColorProperty(track.property)
+        ? 1
+        : baseNumber(frame.value) - baseNumber(track.keyframes[i - 1].value);
+      at = previous + springSettleMs(springFor(frame.spring), distance);
+    } else {
+      at = previous;
+    }
+    times.push(Math.max(previous, at));
+  });
+  return times;
+}
+
+/** Time until `track` has settled, from the unit's start (ms). */
+export function trackDurationMs(track: Track): number {
+  const delay = track.delayMs ?? 0;
+  switch (track.type) {
+    case 'keyframes':
+      return delay + (keyframeTimes(track).pop() ?? 0);
+    case 'spring':
+      return delay + springSettleMs(springFor(track.spring), track.to - track.from);
+    default:
+      return delay + track.durationMs;
+  }
+}
+
+export function tracksDurationMs(tracks: Track[]): number {
+  return tracks.reduce((max, track) => Math.max(max, trackDurationMs(track)), 0);
+}
+
+// ---------------------------------------------------------------------------
+// Authoring
+// ---------------------------------------------------------------------------
+
+/**
+ * Expands keyframes written per moment, CSS style, into one `keyframes`
+ * track per property:
+ *
+ *   keyframeTracks({
+ *     durationMs: 500,
+ *     keyframes: [
+ *       { at: '0%', values: { opacity: 0, scale: 0.6 } },
+ *       { at: '60%', values: { scale: 1.15 }, easing: { out: 'cubic' } },
+ *       { at: '100%', values: { opacity: 1, scale: 1 } },
+ *     ],
+ *     delays: { opacity: 80 },
+ *   })
+ */
+export function keyframeTracks(animation: KeyframeAnimation): KeyframesTrack[] {
+  const properties: AnimatedProperty[] = [];
+  for (const block of animation.keyframes) {
+    for (const property of Object.keys(block.values) as AnimatedProperty[]) {
+      if (!properties.includes(property)) properties.push(property);
+    }
+  }
+  return properties.map((property) => ({
+    type: 'keyframes',
+    property,
+    durationMs: animation.durationMs,
+    delayMs: animation.delays?.[property],
+    mirror: animation.mirror?.includes(property),
+    keyframes: animation.keyframes.flatMap(({ at, values, easing, spring }) => {
+      const value = values[property];
+      return value === undefined ? [] : [{ at, value, easing, spring }];
+    }),
+  }));
+}
+
+function withPhaseMotion(track: Track, motion: PhaseMotion): Track {
+  const { easing, spring } = motion;
+  switch (track.type) {
+    case 'spring':
+      return spring ? { ...track, spring } : track;
+    case 'keyframes':
+      return {
+        ...track,
+        keyframes: track.keyframes.map((frame, i) => {
+          if (i === 0) return frame;
+          if (frame.spring) return spring ? { ...frame, spring } : frame;
+          return easing ? { ...frame, easing } : frame;
+        }),
+      };
+    default:
+      return easing ? { ...track, easing } : track;
+  }
+}
+
+/** `spec` with the easings and springs of each phase replaced by `motion`'s. */
+export function withMotion(spec: AnimationSpec, motion?: SpecMotion): AnimationSpec {
+  if (!motion) return spec;
+  const { enter, emphasis, exit } = motion;
+  return {
+    ...spec,
+    tracks: enter ? spec.tracks.map((track) => withPhaseMotion(track, enter)) : spec.tracks,
+    exit: exit?.easing ? { ...spec.exit, easing: exit.easing } : spec.exit,
+    emphasis:
+      emphasis && spec.emphasis
+        ? {
+            ...spec.emphasis,
+            tracks: spec.emphasis.tracks.map((track) => withPhaseMotion(track, emphasis)),
+          }
+        : spec.emphasis,
+  };
+}
+
+/**
+ * `spec`'s reduced-motion variant. Emphasized units keep their static style
+ * and color changes, which don't move anything.
+ */
+export function reducedMotionSpec(spec: AnimationSpec): AnimationSpec {
+  const { fadeMs } = spec.reducedMotion ?? DEFAULT_REDUCED_MOTION;
+  return {
+    name: spec.name,
+    unit: spec.unit,
+    staggerMs: 0,
+    punctuationDelay: false,
+    typography: spec.typography,
+    // With `fadeMs: 0` units still need a track: a 1ms step keeps them hidden
+    // while the clock sits at 0, before playing and after leaving.
+    tracks: [
+      { type: 'tween', property: 'opacity', from: 0, to: 1, durationMs: Math.max(1, fadeMs) },
+    ],
+    exit: { staggerMs: 0, durationMs: fadeMs },
+    emphasis: spec.emphasis && {
+      ...spec.emphasis,
+      delayMs: 0,
+      staggerMs: 0,
+      tracks: spec.emphasis.tracks.filter((track) => isColorProperty(track.property)),
+      exitOffsets: undefined,
+    },
+    reducedMotion: spec.reducedMotion,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Timing
+// ---------------------------------------------------------------------------
+
+/** The entrance schedule settings, before per-instance options. */
+export function specTimelineSettings(spec: AnimationSpec): TimelineSettings {
+  return {
+    unit: spec.unit,
+    staggerMs: spec.staggerMs,
+    unitDurationMs: spec.unitDurationMs ?? tracksDurationMs(spec.tracks),
+    offsetMs: spec.offsetMs,
+    groupBreak: spec.groupBreak,
+    ...spec.pauses,
+  };
+}
+
+export function specExitSettings(spec: AnimationSpec): TimelineSettings {
+  return {
+    unit: spec.unit,
+    staggerMs: spec.exit.staggerMs,
+    unitDurationMs: spec.exit.durationMs,
+    offsetMs: spec.exit.offsetMs,
+  };
+}
+
+/** Emphasis start time per emphasized unit index; empty without `spec.emphasis`. */
+export function specEmphasisStarts(
+  spec: AnimationSpec,
+  timeline: Timeline,
+  selector?: EmphasisSelector | RegExp,
+): Map<number, number> {
+  if (!spec.emphasis) return new Map();
+  const indices = resolveEmphasis(timeline.units, selector ?? spec.emphasis.select);
+  return scheduleEmphasis(timeline, indices, spec.emphasis);
+}
+
+/** Time at which every unit, including its emphasis, has settled (ms). */
+export function specTotalDuration(
+  spec: AnimationSpec,
+  timeline: Timeline,
+  emphasisStarts: Map<number, number>,
+): number {
+  let end = timeline.totalDuration;
+  const emphasisMs = spec.emphasis ? tracksDurationMs(spec.emphasis.tracks) : 0;
+  emphasisStarts.forEach((start) => {
+    end = Math.max(end, start + emphasisMs);
+  });
+  return end;
+}
+
+/** Duration of `spec`'s entrance for `text`, in ms at the given speed. */
+export function getSpecDuration(
+  spec: AnimationSpec,
+  text: string,
+  {
+    punctuationDelay = spec.punctuationDelay,
+    punctuationRules,
+    pauses,
+    speed = 1,
+    segmenter,
+    markup,
+    motion,
+    reduceMotion = false,
+    longText,
+    emphasis,
+  }: SpecDurationOptions = {},
+): number {
+  const moved = withMotion(spec, motion);
+  const timed = reduceMotion ? reducedMotionSpec(moved) : moved;
+  const timeline = computeTimeline(parseMarkup(text, markup).text, {
+    ...specTimelineSettings(timed),
+    ...longTextSettings(resolveLongText(longText)),
+    ...pauses,
+    punctuationDelay: punctuationDelay && !reduceMotion,
+    punctuationRules,
+    segmenter,
+  });
+  const emphasisStarts = specEmphasisStarts(timed, timeline, emphasis);
+  return specTotalDuration(timed, timeline, emphasisStarts) / speed;
+}
@@ -0,0 +1,666 @@
+/**
+ * SpecAnimation — Renders any `AnimationSpec`.
+ *
+ * Everything the animations share lives here once: themed props, markup,
+ * the entrance and exit timelines, the playback clock, writing direction,
+ * line breaks, long-text mode and the single accessible element screen
+ * readers see. Units then either play the spec's tracks, or, with
+ * `reveal: 'type'`, are typed out behind a blinking cursor.
+ *
+ * One clock drives every unit. Units own no shared values, effects or
+ * scheduled animations: each derives its style from the clock and its
+ * precomputed start, so a long paragraph costs one animation, not hundreds.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import Animated, {
+  interpolateColor,
+  runOnJS,
+  useAnimatedReaction,
+  useAnimatedStyle,
+  useDerivedValue,
+} from 'react-native-reanimated';
+import type { EasingFunction, SharedValue } from 'react-native-reanimated';
+import type { LayoutChangeEvent, StyleProp, TextStyle, ViewStyle } from 'react-native';
+import { computeTimeline, settleUnits, splitWords } from './timeline';
+import type { Timeline, TimelineUnit } from './timeline';
+import type { WordSegmenter } from './segmentation';
+import { pingPong, progressAt } from './motion';
+import { LineBreak } from './lineBreak';
+import { mergeFragments, parseMarkup, resolveMarkupStyles, unitFragments } from './markup';
+import type { MarkupFragment, MarkupStyles } from './markup';
+import { fragmentStyle, MarkupText } from './markupText';
+import { resolveTextStyle } from './textStyle';
+import type { ResolvedTextStyle } from './textStyle';
+import { directionRowStyle, directionSign, resolveDirection } from './direction';
+import { useReduceMotion } from './reducedMotion';
+import { longTextSettings, resolveLongText, useOffscreenUnits } from './longText';
+import {
+  accessibilityLabelFor,
+  accessibleContainerProps,
+  HIDDEN_FROM_ACCESSIBILITY,
+} from './accessibility';
+import { usePlaybackClock } from './playback';
+import { useThemedProps } from './theme';
+import { resolveEasing } from './easing';
+import type { EmphasisSelector } from './emphasis';
+import {
+  crescendoIntensities,
+  specCursor,
+  specEmphasisStarts,
+  specExitSettings,
+  specTimelineSettings,
+  specTotalDuration,
+  specTypography,
+  reducedMotionSpec,
+  withMotion,
+} from './spec';
+import type { AnimationSpec, ExitOffsets, SpecTypography } from './spec';
+import { applyTracks, resolveTracks } from './tracks';
+import type { TrackColors, TrackStyle, UnitTrack } from './tracks';
+import type { TextAnimationProps } from './types';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface SpecAnimationProps extends TextAnimationProps {
+  spec: AnimationSpec;
+  /** Units that get `spec.emphasis`. Defaults to `spec.emphasis.select`. */
+  emphasis?: EmphasisSelector | RegExp;
+}
+
+interface ResolvedExit {
+  durationMs: number;
+  easing?: EasingFunction;
+  rewind: boolean;
+  offsets?: ExitOffsets;
+}
+
+interface UnitsProps {
+  spec: AnimationSpec;
+  text: string;
+  /** Splits `text` into words for the shimmer, like the timeline does. */
+  segmenter?: WordSegmenter;
+  timeline: Timeline;
+  exitTimeline: Timeline;
+  fragments: MarkupFragment[][];
+  markupStyles: MarkupStyles;
+  textStyle: StyleProp<TextStyle>;
+  typography: SpecTypography;
+  resolvedText: ResolvedTextStyle;
+  colors: TrackColors;
+  emphasisStarts: Map<number, number>;
+  sign: number;
+  time: SharedValue<number>;
+  exitTime: SharedValue<number>;
+}
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+/** Shadows are drawn centered, so a shadow radius reads as blur. */
+const CENTERED_SHADOW: TextStyle = { textShadowOffset: { width: 0, height: 0 } };
+
+const NO_TRACKS: UnitTrack[] = [];
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function unitBaseStyle(spec: AnimationSpec, typography: SpecTypography): TextStyle[] {
+  const base: TextStyle[] = [
+    {
+      fontSize: typography.fontSize,
+      fontWeight: typography.fontWeight,
+      color: typography.color,
+    },
+  ];
+  const tracks = [...spec.tracks, ...(spec.emphasis?.tracks ?? [])];
+  if (tracks.some((track) => track.property === 'textShadowRadius')) base.push(CENTERED_SHADOW);
+  return base;
+}
+
+/**
+ * Unit indices laid out together. A word's characters and the spaces after
+ * it form one block, so character animations wrap between words, not
+ * inside them. Word units are blocks of their own.
+ */
+function layoutBlocks(units: TimelineUnit[], kind: AnimationSpec['unit']): number[][] {
+  if (kind === 'word') return units.map((unit) => [unit.index]);
+  const blocks: number[][] = [];
+  let block: number[] = [];
+  units.forEach((unit, i) => {
+    block.push(unit.index);
+    const next = units[i + 1];
+    const wordEnds = next !== undefined && /^\s+$/.test(unit.text) && !/^\s+$/.test(next.text);
+    if (next === undefined || unit.lineBreaks > 0 || wordEnds) {
+      blocks.push(block);
+      block = [];
+    }
+  });
+  return blocks;
+}
+
+/** Number of characters whose start time has been reached. */
+function countStarted(starts: number[], time: number): number {
+  'worklet';
+  let count = 0;
+  while (count < starts.length && starts[count] <= time) count++;
+  return count;
+}
+
+// ---------------------------------------------------------------------------
+// Animated Unit
+// ---------------------------------------------------------------------------
+
+interface SpecUnitProps {
+  spec: AnimationSpec;
+  unit: TimelineUnit;
+  fragments: MarkupFragment[];
+  markupStyles: MarkupStyles;
+  baseStyle: StyleProp<TextStyle>;
+  textStyle: StyleProp<TextStyle>;
+  colors: TrackColors;
+  tracks: UnitTrack[];
+  /** Empty unless the unit is emphasized. */
+  emphasisTracks: UnitTrack[];
+  /** When this unit's emphasis starts (ms); undefined if it has none. */
+  emphasisStart: number | undefined;
+  exit: ResolvedExit;
+  exitDelay: number;
+  time: SharedValue<number>;
+  exitTime: SharedValue<number>;
+  sign: number;
+  /** Position of this unit on the shimmer sweep, in words. */
+  shimmerPosition: number;
+  shimmerSweep: SharedValue<number>;
+  onLayout?: (event: LayoutChangeEvent) => void;
+}
+
+function SpecUnit({
+  spec,
+  unit,
+  fragments,
+  markupStyles,
+  baseStyle,
+  textStyle,
+  colors,
+  tracks,
+  emphasisTracks,
+  emphasisStart,
+  exit,
+  exitDelay,
+  time,
+  exitTime,
+  sign,
+  shimmerPosition,
+  shimmerSweep,
+  onLayout,
+}: SpecUnitProps) {
+  const isEmphasis = emphasisStart !== undefined && spec.emphasis !== undefined;
+  const emphasisDelay = emphasisStart ?? 0;
+  const emphasisOffsets = spec.emphasis?.exitOffsets;
+  const shimmerFalloff = spec.shimmer?.falloff;
+  const delay = unit.start;
+
+  const animatedStyle = useAnimatedStyle(() => {
+    const leave = progressAt(exitTime.value - exitDelay, exit.durationMs, exit.easing);
+    const style: TrackStyle = { transform: [] };
+    applyTracks(style, tracks, {
+      t: time.value - delay,
+      leave,
+      rewind: exit.rewind,
+      offsets: exit.offsets,
+      sign,
+    });
+    if (emphasisTracks.length > 0) {
+      applyTracks(style, emphasisTracks, {
+        t: time.value - emphasisDelay,
+        leave,
+        rewind: exit.rewind,
+        offsets: emphasisOffsets,
+        sign,
+      });
+    }
+    if (!exit.rewind && style.opacity === undefined) style.opacity = 1 - leave;
+    if (shimmerFalloff !== undefined) {
+      const distance = Math.abs(shimmerSweep.value - shimmerPosition);
+      style.color = interpolateColor(
+        Math.max(0, 1 - distance * shimmerFalloff),
+        [0, 1],
+        [colors.text, colors.accent],
+      );
+    }
+    return style;
+  });
+
+  const emphasisStyle = isEmphasis ? spec.emphasis?.style : undefined;
+
+  if (spec.unit === 'char') {
+    const displayChar = unit.text === ' ' ? '\u00A0' : unit.text;
+    return (
+      <Animated.Text
+        {...HIDDEN_FROM_ACCESSIBILITY}
+        style={[
+          baseStyle,
+          textStyle,
+          emphasisStyle,
+          animatedStyle,
+          fragmentStyle(fragments[0].tags, markupStyles),
+        ]}
+      >
+        {displayChar}
+      </Animated.Text>
+    );
+  }
+
+  return (
+    <Animated.Text
+      {...HIDDEN_FROM_ACCESSIBILITY}
+      style={[baseStyle, textStyle, emphasisStyle, animatedStyle]}
+      onLayout={onLayout}
+    >
+      <MarkupText fragments={fragments} styles={markupStyles} />
+    </Animated.Text>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Animated Units
+// ---------------------------------------------------------------------------
+
+interface AnimatedUnitsProps extends UnitsProps {
+  blocks: number[][];
+  /** Lays out each block's characters in the text's direction. */
+  rowStyle: ViewStyle | null;
+  onBlockLayout?: (block: number, event: LayoutChangeEvent) => void;
+}
+
+function AnimatedUnits({
+  spec,
+  text,
+  segmenter,
+  timeline,
+  exitTimeline,
+  fragments,
+  markupStyles,
+  textStyle,
+  typography,
+  resolvedText,
+  colors,
+  emphasisStarts,
+  sign,
+  time,
+  exitTime,
+  blocks,
+  rowStyle,
+  onBlockLayout,
+}: AnimatedUnitsProps) {
+  const { units } = timeline;
+  const baseStyle = useMemo(() => unitBaseStyle(spec, typography), [spec, typography]);
+  const exit = useMemo<ResolvedExit>(
+    () => ({
+      durationMs: spec.exit.durationMs,
+      easing: resolveEasing(spec.exit.easing),
+      rewind: spec.exit.style === 'rewind',
+      offsets: spec.exit.offsets,
+    }),
+    [spec],
+  );
+  const intensities = useMemo(
+    () => (spec.crescendo ? crescendoIntensities(units, spec.crescendo.marks) : undefined),
+    [spec, units],
+  );
+  // Tracks are resolved once per crescendo intensity, not once per unit.
+  const unitTracks = useMemo(() => {
+    const byIntensity = new Map<number, UnitTrack[]>();
+    return units.map((unit) => {
+      const intensity = intensities?.[unit.index] ?? 0;
+      let tracks = byIntensity.get(intensity);
+      if (!tracks) {
+        tracks = resolveTracks(spec.tracks, colors, intensity);
+        byIntensity.set(intensity, tracks);
+      }
+      return tracks;
+    });
+  }, [spec, units, intensities, colors]);
+  const emphasisTracks = useMemo(
+    () => (spec.emphasis ? resolveTracks(spec.emphasis.tracks, colors) : []),
+    [spec, colors],
+  );
+
+  // The shimmer sweeps across the words and back; character units are
+  // spread over `charSpread` word positions.
+  const wordCount = useMemo(
+    () => (spec.unit === 'word' ? units.length : splitWords(text, segmenter).length),
+    [spec, units, text, segmenter],
+  );
+  const legMs = spec.shimmer ? wordCount * spec.shimmer.legMsPerWord : 0;
+  const charSpread = spec.shimmer?.charSpread ?? wordCount;
+  const shimmerSweep = useDerivedValue(() =>
+    pingPong(time.value, -0.5, wordCount + 1, legMs),
+  );
+
+  const renderUnit = (unit: TimelineUnit, onLayout?: (event: LayoutChangeEvent) => void) => (
+    <SpecUnit
+      key={`${unit.index}-${unit.text}`}
+      spec={spec}
+      unit={unit}
+      fragments={fragments[unit.index]}
+      markupStyles={markupStyles}
+      baseStyle={baseStyle}
+      textStyle={textStyle}
+      colors={colors}
+      tracks={unitTracks[unit.index]}
+      emphasisTracks={emphasisStarts.has(unit.index) ? emphasisTracks : NO_TRACKS}
+      emphasisStart={emphasisStarts.get(unit.index)}
+      exit={exit}
+      exitDelay={exitTimeline.units[unit.index].start}
+      time={time}
+      exitTime={exitTime}
+      sign={sign}
+      shimmerPosition={
+        spec.unit === 'word' ? unit.index : unit.index / (units.length / charSpread)
+      }
+      shimmerSweep={shimmerSweep}
+      onLayout={onLayout}
+    />
+  );
+
+  return (
+    <>
+      {blocks.map((block, b) => {
+        const first = units[block[0]];
+        const last = units[block[block.length - 1]];
+        const onLayout = onBlockLayout && ((event: LayoutChangeEvent) => onBlockLayout(b, event));
+        return (
+          <React.Fragment key={`${first.index}-${first.text}`}>
+            {spec.unit === 'word' ? (
+              renderUnit(first, onLayout)
+            ) : (
+              <View style={[styles.block, rowStyle]} onLayout={onLayout}>
+                {block.map((index) => renderUnit(units[index]))}
+              </View>
+            )}
+            <LineBreak
+              count={last.lineBreaks}
+              fontSize={resolvedText.fontSize}
+              lineHeight={resolvedText.lineHeight}
+            />
+          </React.Fragment>
+        );
+      })}
+    </>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Typed Units
+// ---------------------------------------------------------------------------
+
+interface TypedUnitsProps extends UnitsProps {
+  isPlaying: boolean;
+}
+
+function TypedUnits({
+  spec,
+  timeline,
+  exitTimeline,
+  fragments,
+  markupStyles,
+  textStyle,
+  typography,
+  time,
+  exitTime,
+  isPlaying,
+}: TypedUnitsProps) {
+  const [visibleChars, setVisibleChars] = useState(0);
+  const cursor = specCursor(spec);
+  const lineStyle = useMemo(() => unitBaseStyle(spec, typography), [spec, typography]);
+  const starts = useMemo(() => timeline.units.map((u) => u.start), [timeline]);
+  const exitStarts = useMemo(() => exitTimeline.units.map((u) => u.start), [exitTimeline]);
+  const keystrokes = useMemo(
+    () =>
+      timeline.units.map((u, i) => ({
+        text: u.text + '\n'.repeat(u.lineBreaks),
+        tags: fragments[i][0].tags,
+      })),
+    [timeline, fragments],
+  );
+
+  // Typing and backspacing logic
+  useAnimatedReaction(
+    () =>
+      Math.max(
+        0,
+        countStarted(starts, time.value) -
+          countStarted(exitStarts, exitTime.value),
+      ),
+    (count, previous) => {
+      if (count !== previous) runOnJS(setVisibleChars)(count);
+    },
+    [starts, exitStarts],
+  );
+
+  // The blink follows the clock, so it pauses, seeks and changes speed with it.
+  const blinkMs = cursor.blinkMs;
+  const cursorStyle = useAnimatedStyle(() => ({
+    opacity: pingPong(time.value, 1, 0, blinkMs),
+  }));
+
+  return (
+    <>
+      <Text {...HIDDEN_FROM_ACCESSIBILITY} style={[lineStyle, textStyle, styles.typedText]}>
+        <MarkupText
+          fragments={mergeFragments(keystrokes.slice(0, visibleChars))}
+          styles={markupStyles}
+        />
+      </Text>
+      {(isPlaying || visibleChars > 0) && (
+        <Animated.Text
+          {...HIDDEN_FROM_ACCESSIBILITY}
+          style={[lineStyle, textStyle, styles.cursor, cursorStyle]}
+        >
+          {cursor.char}
+        </Animated.Text>
+      )}
+    </>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+export function SpecAnimation(props: SpecAnimationProps) {
+  const {
+    spec: baseSpec,
+    text,
+    isPlaying,
+    punctuationDelay = baseSpec.punctuationDelay,
+    punctuationRules,
+    pauses,
+    onComplete,
+    speed = 1,
+    progress,
+    controller,
+    exit,
+    onExitComplete,
+    loop,
+    repeatCount,
+    holdMs,
+    direction,
+    segmenter,
+    markup,
+    markupStyles,
+    style,
+    textStyle,
+    accentColor,
+    motion,
+    accessibilityRole,
+    accessibilityLabel,
+    reduceMotion,
+    longText,
+    emphasis,
+  } = useThemedProps(props);
+  const reduced = useReduceMotion(reduceMotion);
+  const spec = useMemo(() => {
+    const moved = withMotion(baseSpec, motion);
+    return reduced ? reducedMotionSpec(moved) : moved;
+  }, [baseSpec, motion, reduced]);
+  const source = useMemo(() => parseMarkup(text, markup), [text, markup]);
+  const longForm = useMemo(() => resolveLongText(longText), [longText]);
+  const fullTimeline = useMemo(
+    () =>
+      computeTimeline(source.text, {
+        ...specTimelineSettings(spec),
+        ...longTextSettings(longForm),
+        ...pauses,
+        punctuationDelay: punctuationDelay && !reduced,
+        punctuationRules,
+        segmenter,
+      }),
+    [spec, source.text, longForm, pauses, punctuationDelay, reduced, punctuationRules, segmenter],
+  );
+  const exitTimeline = useMemo(
+    () =>
+      computeTimeline(source.text, {
+        ...specExitSettings(spec),
+        ...longTextSettings(longForm),
+        segmenter,
+      }),
+    [spec, source.text, longForm, segmenter],
+  );
+  const typed = spec.reveal === 'type';
+  const blocks = useMemo(
+    () => layoutBlocks(fullTimeline.units, spec.unit),
+    [fullTimeline, spec.unit],
+  );
+  const { containerRef, onBlockLayout, offscreen } = useOffscreenUnits(
+    longForm?.onlyVisible === true && !typed,
+    isPlaying,
+    `${spec.unit}:${source.text}`,
+    blocks,
+  );
+  const timeline = useMemo(
+    () =>
+      offscreen && offscreen.size > 0
+        ? settleUnits(fullTimeline, (unit) => offscreen.has(unit.index))
+        : fullTimeline,
+    [fullTimeline, offscreen],
+  );
+  const textDirection = useMemo(
+    () => resolveDirection(source.text, direction),
+    [source.text, direction],
+  );
+  const sign = directionSign(textDirection);
+  const emphasisStarts = useMemo(
+    () => specEmphasisStarts(spec, timeline, emphasis),
+    [spec, timeline, emphasis],
+  );
+  const fragments = useMemo(() => unitFragments(timeline.units, source), [timeline, source]);
+  const typography = useMemo(() => specTypography(spec), [spec]);
+  const resolvedText = useMemo(
+    () => resolveTextStyle(textStyle, typography),
+    [textStyle, typography],
+  );
+  const accent = accentColor ?? typography.accentColor;
+  const colors = useMemo(
+    () => ({ text: resolvedText.color, accent }),
+    [resolvedText.color, accent],
+  );
+  const tagStyles = useMemo(
+    () => resolveMarkupStyles(accent, markupStyles),
+    [accent, markupStyles],
+  );
+  const { time, exitTime } = usePlaybackClock({
+    isPlaying,
+    durationMs: specTotalDuration(spec, timeline, emphasisStarts),
+    speed,
+    progress,
+    controller,
+    onComplete,
+    exit,
+    exitDurationMs: exitTimeline.totalDuration,
+    onExitComplete,
+    loop,
+    repeatCount,
+    holdMs,
+  });
+
+  const unitsProps: UnitsProps = {
+    spec,
+    text: source.text,
+    segmenter,
+    timeline,
+    exitTimeline,
+    fragments,
+    markupStyles: tagStyles,
+    textStyle,
+    typography,
+    resolvedText,
+    colors,
+    emphasisStarts,
+    sign,
+    time,
+    exitTime,
+  };
+  const rowStyle = directionRowStyle(textDirection);
+
+  return (
+    <View
+      ref={containerRef}
+      {...accessibleContainerProps(
+        accessibilityLabel ?? accessibilityLabelFor(source.text),
+        accessibilityRole,
+      )}
+      style={[typed ? styles.typedRow : styles.row, rowStyle, style]}
+    >
+      {typed ? (
+        <TypedUnits {...unitsProps} isPlaying={isPlaying} />
+      ) : (
+        <AnimatedUnits
+          {...unitsProps}
+          blocks={blocks}
+          rowStyle={rowStyle}
+          onBlockLayout={onBlockLayout}
+        />
+      )}
+    </View>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Styles
+// ---------------------------------------------------------------------------
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    minHeight: 30,
+  },
+  typedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    minHeight: 30,
+  },
+  /** Lets long typed text wrap inside the row. */
+  typedText: {
+    flexShrink: 1,
+  },
+  /** A word's characters, kept on one line. */
+  block: {
+    flexDirection: 'row',
+  },
+  /** Applied over the line style, so the cursor matches the text. */
+  cursor: {
+    fontWeight: '300' as const,
+    marginLeft: -1,
+  },
+});
+
+export default SpecAnimation;
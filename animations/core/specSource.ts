@@ -0,0 +1,388 @@
+/**
+ * Spec Source — Writes a spec out as a self-contained animation file.
+ *
+ * `specSource` turns a spec into the source of a `.tsx` file laid out like
+ * the original animations (Types, Config, Helpers, unit component,
+ * exported component, Styles), with every value baked in. The file needs
+ * only React Native and Reanimated, so it can be copied into a project
+ * without `core/`. It covers what the composer makes: tween tracks between
+ * plain values, a stagger, punctuation pauses and typography.
+ */
+
+import type { EasingSpec } from './easing';
+import { EASING_PRESETS, isEasingPreset } from './presets';
+import { DEFAULT_TYPOGRAPHY, isColorProperty, isTransformProperty } from './spec';
+import type { AnimationSpec, ColorSpec, SpecTypography, TweenTrack } from './spec';
+import { withAlpha } from './textStyle';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A tween between plain values; crescendo values need the runtime. */
+export interface SourceTrack extends Omit<TweenTrack, 'from' | 'to'> {
+  from: number | ColorSpec;
+  to: number | ColorSpec;
+}
+
+/**
+ * The part of a spec a generated file bakes in. Exits, emphasis, shimmer,
+ * right-to-left mirroring and the other runtime features stay in `core/`;
+ * units reset instantly when `isPlaying` becomes false.
+ */
+export type SourceSpec = Pick<
+  AnimationSpec,
+  'name' | 'unit' | 'staggerMs' | 'punctuationDelay' | 'pauses' | 'typography'
+> & { tracks: SourceTrack[] };
+
+export interface SpecSourceOptions {
+  /** One-line summary after the name in the file header. */
+  description?: string;
+}
+
+export interface SpecSource {
+  /** e.g. `dropIn.tsx`. */
+  fileName: string;
+  /** e.g. `DropIn`; the duration helper is `getDropInDuration`. */
+  componentName: string;
+  source: string;
+}
+
+/** The pieces of generated code that play one track. */
+interface TrackSource {
+  /** Shared value holding the track's eased progress (0..1). */
+  progress: string;
+  /** Starts the track, inside the unit's effect. */
+  start: string[];
+  /** The animated style entry, e.g. `opacity: interpolate(…)`, one or more lines. */
+  style: string[];
+  isTransform: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+const MAX_LINE = 100;
+const INDENT = '  ';
+const SECTION_RULE = `// ${'-'.repeat(75)}`;
+
+/** Pause lengths the runtime uses when a spec doesn't set them (ms). */
+const DEFAULT_PAUSES = { punctPauseLong: 300, punctPauseShort: 150 };
+
+/** Like `withTiming`, which the runtime's tweens default to. */
+const DEFAULT_EASING = 'Easing.inOut(Easing.quad)';
+
+/** Written into generated files: the Latin and CJK endings of `DEFAULT_PUNCTUATION`. */
+const PUNCTUATION_CONFIG = [
+  "const LONG_ENDINGS = '.!?…。！？';",
+  "const SHORT_ENDINGS = ',;:—、，；：';",
+  '/** Closing quotes and brackets after an ending, e.g. `"Stop!"`. */',
+  "const CLOSING_MARKS = /[\"'”’)\\]»」』]+$/;",
+];
+
+// ---------------------------------------------------------------------------
+// Formatting
+// ---------------------------------------------------------------------------
+
+function quote(text: string): string {
+  const escaped = text
+    .replace(/\\/g, '\\\\')
+    .replace(/'/g, "\\'")
+    .replace(/\n/g, '\\n');
+  return `'${escaped}'`;
+}
+
+function section(title: string): string[] {
+  return [SECTION_RULE, `// ${title}`, SECTION_RULE, ''];
+}
+
+function easingSource(spec: EasingSpec): string {
+  if (typeof spec === 'string') {
+    return isEasingPreset(spec) ? easingSource(EASING_PRESETS[spec]) : `Easing.${spec}`;
+  }
+  if ('poly' in spec) return `Easing.poly(${spec.poly})`;
+  if ('elastic' in spec) return `Easing.elastic(${spec.elastic})`;
+  if ('back' in spec) return `Easing.back(${spec.back})`;
+  if ('bezier' in spec) return `Easing.bezierFn(${spec.bezier.join(', ')})`;
+  if ('in' in spec) return `Easing.in(${easingSource(spec.in)})`;
+  if ('out' in spec) return `Easing.out(${easingSource(spec.out)})`;
+  return `Easing.inOut(${easingSource(spec.inOut)})`;
+}
+
+/** A track value as code; color tokens point at the file's `CONFIG`. */
+function valueSource(value: number | ColorSpec, typography: SpecTypography): string {
+  if (typeof value === 'number') return String(value);
+  if (typeof value === 'string') return quote(value);
+  const key = value.token === 'text' ? 'color' : 'accentColor';
+  if (value.alpha === undefined) return `CONFIG.${key}`;
+  return quote(withAlpha(typography[key], value.alpha));
+}
+
+function trackSource(
+  track: SourceTrack,
+  progress: string,
+  typography: SpecTypography,
+): TrackSource {
+  const { property } = track;
+  const isTransform = isTransformProperty(property);
+  const interpolator = isColorProperty(property) ? 'interpolateColor' : 'interpolate';
+  const args = [
+    `${progress}.value`,
+    '[0, 1]',
+    `[${valueSource(track.from, typography)}, ${valueSource(track.to, typography)}]`,
+  ];
+  let value = `${interpolator}(${args.join(', ')})`;
+  if (property === 'rotate' || property.startsWith('skew')) value = `\`\${${value}}deg\``;
+  let style = [isTransform ? `{ ${property}: ${value} },` : `${property}: ${value},`];
+  // Style entries sit two levels deep, transforms three.
+  if (!isTransform && INDENT.length * 2 + style[0].length > MAX_LINE) {
+    style = [`${property}: ${interpolator}(`, ...indent(args.map((a) => `${a},`), 1), '),'];
+  }
+  const delay = track.delayMs ? `delay + ${track.delayMs}` : 'delay';
+  const easing = track.easing === undefined ? DEFAULT_EASING : easingSource(track.easing);
+  return {
+    progress,
+    start: [
+      `${progress}.value = withDelay(`,
+      `${INDENT}${delay},`,
+      `${INDENT}withTiming(1, { duration: ${track.durationMs}, easing: ${easing} }),`,
+      ');',
+    ],
+    style,
+    isTransform,
+  };
+}
+
+/** `lines` indented by `depth` levels. */
+function indent(lines: string[], depth: number): string[] {
+  const prefix = INDENT.repeat(depth);
+  return lines.map((line) => (line === '' ? line : `${prefix}${line}`));
+}
+
+// ---------------------------------------------------------------------------
+// Naming
+// ---------------------------------------------------------------------------
+
+function nameWords(name: string): string[] {
+  // Accented letters keep their base letter: "José" -> "Jose".
+  const words = name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f'’]/g, '')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+  // Identifiers can't start with a digit.
+  return words.length === 0 || /^\d/.test(words[0]) ? ['Custom', ...words] : words;
+}
+
+function capitalize(word: string): string {
+  return word[0].toUpperCase() + word.slice(1);
+}
+
+/** One shared value per track, named after its property. */
+function progressNames(tracks: SourceTrack[]): string[] {
+  const seen = new Map<string, number>();
+  return tracks.map(({ property }) => {
+    const count = (seen.get(property) ?? 0) + 1;
+    seen.set(property, count);
+    return `${property}Progress${count > 1 ? count : ''}`;
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Source
+// ---------------------------------------------------------------------------
+
+/** The source of a self-contained animation file playing `spec`. */
+export function specSource(spec: SourceSpec, options: SpecSourceOptions = {}): SpecSource {
+  const componentName = nameWords(spec.name).map(capitalize).join('');
+  const fileName = `${componentName[0].toLowerCase()}${componentName.slice(1)}.tsx`;
+  const isWord = spec.unit === 'word';
+  const unitName = `${componentName}${isWord ? 'Word' : 'Char'}`;
+  const split = isWord ? 'splitWords' : 'splitChars';
+  const description = options.description ?? 'Generated from an animation spec.';
+  const title = `${spec.name} — ${description}`.replace(/\*\//g, '* /');
+
+  const typography = { ...DEFAULT_TYPOGRAPHY, ...spec.typography };
+  const pauses = { ...DEFAULT_PAUSES, ...spec.pauses };
+  const unitDurationMs = spec.tracks.reduce(
+    (max, track) => Math.max(max, (track.delayMs ?? 0) + track.durationMs),
+    0,
+  );
+  // As in the runtime, a later track of the same property wins; transforms all apply.
+  const played = spec.tracks.filter(
+    (track, i) =>
+      isTransformProperty(track.property) ||
+      !spec.tracks.slice(i + 1).some((later) => later.property === track.property),
+  );
+  const names = progressNames(played);
+  const tracks = played.map((track, i) => trackSource(track, names[i], typography));
+  const transforms = tracks.filter((t) => t.isTransform).flatMap((t) => t.style);
+  const styleEntries = [
+    ...tracks.filter((t) => !t.isTransform).flatMap((t) => t.style),
+    ...(transforms.length === 0 ? [] : ['transform: [', ...indent(transforms, 1), '],']),
+  ];
+  const uses = (name: string) => tracks.some((t) => t.style.join('').includes(`${name}(`));
+
+  const reanimated = [
+    'Easing',
+    ...(uses('interpolate') ? ['interpolate'] : []),
+    ...(uses('interpolateColor') ? ['interpolateColor'] : []),
+    'useAnimatedStyle',
+    'useSharedValue',
+    'withDelay',
+    'withTiming',
+  ];
+  const fontWeight =
+    typeof typography.fontWeight === 'string'
+      ? `${quote(typography.fontWeight)} as const`
+      : String(typography.fontWeight);
+
+  const source = [
+    '/**',
+    ` * ${title}`,
+    ' *',
+    ` * Each ${isWord ? 'word' : 'character'} plays ${played.map((t) => t.property).join(', ')}`,
+    ` * over ${unitDurationMs}ms, starting ${spec.staggerMs}ms after the previous one.`,
+    ' *',
+    ' * Self-contained: copy this file into your project.',
+    ' * Requires: react-native-reanimated',
+    ' */',
+    '',
+    "import { useEffect, useMemo } from 'react';",
+    "import { StyleSheet, View } from 'react-native';",
+    'import Animated, {',
+    ...indent(reanimated.map((name) => `${name},`), 1),
+    "} from 'react-native-reanimated';",
+    '',
+    ...section('Types'),
+    'interface TextAnimationProps {',
+    '  text: string;',
+    '  isPlaying: boolean;',
+    '  punctuationDelay?: boolean;',
+    '}',
+    '',
+    ...section('Config'),
+    'const CONFIG = {',
+    `  fontSize: ${typography.fontSize},`,
+    `  fontWeight: ${fontWeight},`,
+    `  color: ${quote(typography.color)},`,
+    `  accentColor: ${quote(typography.accentColor)},`,
+    `  staggerMs: ${spec.staggerMs},`,
+    `  unitDurationMs: ${unitDurationMs},`,
+    `  punctPauseLong: ${pauses.punctPauseLong},`,
+    `  punctPauseShort: ${pauses.punctPauseShort},`,
+    '};',
+    '',
+    ...PUNCTUATION_CONFIG,
+    '',
+    ...section('Helpers'),
+    ...(isWord
+      ? [
+          'function splitWords(text: string): string[] {',
+          '  return text.split(/\\s+/).filter((w) => w.length > 0);',
+          '}',
+        ]
+      : [
+          '// Array.from keeps surrogate pairs (most emoji) together.',
+          'function splitChars(text: string): string[] {',
+          '  return Array.from(text);',
+          '}',
+        ]),
+    '',
+    'function computeDelays(units: string[], punctDelay: boolean): number[] {',
+    '  const delays: number[] = [];',
+    '  let cumulative = 0;',
+    '  for (const unit of units) {',
+    '    delays.push(cumulative);',
+    '    cumulative += CONFIG.staggerMs;',
+    "    const last = unit.replace(CLOSING_MARKS, '').slice(-1);",
+    "    if (!punctDelay || last === '') continue;",
+    '    if (LONG_ENDINGS.includes(last)) cumulative += CONFIG.punctPauseLong;',
+    '    else if (SHORT_ENDINGS.includes(last)) cumulative += CONFIG.punctPauseShort;',
+    '  }',
+    '  return delays;',
+    '}',
+    '',
+    ...section(unitName),
+    'interface UnitProps {',
+    '  text: string;',
+    '  delay: number;',
+    '  isPlaying: boolean;',
+    '}',
+    '',
+    `function ${unitName}({ text, delay, isPlaying }: UnitProps) {`,
+    ...tracks.map((t) => `  const ${t.progress} = useSharedValue(0);`),
+    '',
+    '  useEffect(() => {',
+    ...tracks.map((t) => `    ${t.progress}.value = 0;`),
+    '    if (!isPlaying) return;',
+    ...indent(tracks.flatMap((t) => t.start), 2),
+    '  }, [isPlaying, delay]);',
+    '',
+    '  const animatedStyle = useAnimatedStyle(() => ({',
+    ...indent(styleEntries, 2),
+    '  }));',
+    '',
+    '  return (',
+    '    <Animated.Text style={[styles.unit, animatedStyle]}>',
+    isWord ? "      {text}{' '}" : '      {text}',
+    '    </Animated.Text>',
+    '  );',
+    '}',
+    '',
+    ...section(componentName),
+    `export function ${componentName}({`,
+    '  text,',
+    '  isPlaying,',
+    `  punctuationDelay = ${spec.punctuationDelay},`,
+    '}: TextAnimationProps) {',
+    `  const units = useMemo(() => ${split}(text), [text]);`,
+    '  const delays = useMemo(',
+    '    () => computeDelays(units, punctuationDelay),',
+    '    [units, punctuationDelay],',
+    '  );',
+    '',
+    '  return (',
+    '    <View style={styles.row}>',
+    '      {units.map((unit, i) => (',
+    `        <${unitName}`,
+    '          key={`${i}-${unit}`}',
+    '          text={unit}',
+    '          delay={delays[i]}',
+    '          isPlaying={isPlaying}',
+    '        />',
+    '      ))}',
+    '    </View>',
+    '  );',
+    '}',
+    '',
+    '/** Time until the last unit has settled (ms). */',
+    `export function get${componentName}Duration(`,
+    '  text: string,',
+    `  punctuationDelay = ${spec.punctuationDelay},`,
+    '): number {',
+    `  const delays = computeDelays(${split}(text), punctuationDelay);`,
+    '  return delays.length === 0 ? 0 : delays[delays.length - 1] + CONFIG.unitDurationMs;',
+    '}',
+    '',
+    ...section('Styles'),
+    'const styles = StyleSheet.create({',
+    '  row: {',
+    "    flexDirection: 'row',",
+    "    flexWrap: 'wrap',",
+    '    minHeight: 30,',
+    '  },',
+    '  unit: {',
+    '    fontSize: CONFIG.fontSize,',
+    '    fontWeight: CONFIG.fontWeight,',
+    '    color: CONFIG.color,',
+    '  },',
+    '});',
+    '',
+    `export default ${componentName};`,
+    '',
+  ].join('\n');
+
+  return { fileName, componentName, source };
+}
@@ -0,0 +1,69 @@
+/**
+ * Text style — Per-instance typography on top of each spec's typography.
+ *
+ * Units apply the `textStyle` prop directly, but some values are needed as
+ * plain numbers and strings: shimmer and emphasis colors are interpolated
+ * inside worklets, and blank lines are sized from the font. This module
+ * flattens the prop into those values.
+ */
+
+import { StyleSheet } from 'react-native';
+import type { StyleProp, TextStyle } from 'react-native';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface TextDefaults {
+  fontSize: number;
+  color: string;
+}
+
+export interface ResolvedTextStyle {
+  fontSize: number;
+  /** Only set when `textStyle` sets it. */
+  lineHeight?: number;
+  /** A color string that worklets can interpolate. */
+  color: string;
+}
+
+// ---------------------------------------------------------------------------
+// Resolving
+// ---------------------------------------------------------------------------
+
+/**
+ * `textStyle` over the defaults. Platform colors can't be interpolated,
+ * so a non-string `color` falls back to the default for animated colors.
+ */
+export function resolveTextStyle(
+  textStyle: StyleProp<TextStyle>,
+  defaults: TextDefaults,
+): ResolvedTextStyle {
+  const flat = StyleSheet.flatten(textStyle) ?? {};
+  return {
+    fontSize: flat.fontSize ?? defaults.fontSize,
+    lineHeight: flat.lineHeight,
+    color: typeof flat.color === 'string' ? flat.color : defaults.color,
+  };
+}
+
+const HEX = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const RGB = /^rgba?\(\s*([\d.]+)\s*,\s*([\d.]+)\s*,\s*([\d.]+)/i;
+
+/**
+ * `color` with its alpha replaced, e.g. for fading a color in from fully
+ * transparent without passing through black. Supports hex and rgb(a)
+ * strings; other formats are returned unchanged.
+ */
+export function withAlpha(color: string, alpha: number): string {
+  let rgb: number[] | undefined;
+  const hex = HEX.exec(color)?.[1];
+  if (hex) {
+    const digits = hex.length <= 4 ? hex.replace(/./g, '$&$&') : hex;
+    rgb = [0, 2, 4].map((i) => parseInt(digits.slice(i, i + 2), 16));
+  } else {
+    const match = RGB.exec(color);
+    if (match) rgb = match.slice(1, 4).map(Number);
+  }
+  return rgb ? `rgba(${rgb.join(',')},${alpha})` : color;
+}
@@ -0,0 +1,108 @@
+/**
+ * Theme — App-wide defaults for every text animation.
+ *
+ * Wrap part of the app in `TextAnimationThemeProvider` to set typography,
+ * accent color, punctuation pauses, speed, motion presets and reduced
+ * motion in one place. Each animation resolves its props as: prop, then
+ * theme, then the animation's spec. Nested providers merge with the ones
+ * above them.
+ */
+
+import React, { createContext, useContext, useMemo } from 'react';
+import type { ReactNode } from 'react';
+import type { StyleProp, TextStyle } from 'react-native';
+import type { PunctuationRules } from './punctuation';
+import type { SpecMotion } from './spec';
+import type { TimelinePauses } from './timeline';
+import type { TextAnimationProps } from './types';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface TextAnimationTheme {
+  /** Applied under each instance's `textStyle`. */
+  textStyle?: StyleProp<TextStyle>;
+  accentColor?: string;
+  /** Pause lengths; each instance's `pauses` override them key by key. */
+  pauses?: TimelinePauses;
+  punctuationRules?: PunctuationRules;
+  speed?: number;
+  /** Easing and spring per phase; each instance's `motion` overrides them phase by phase. */
+  motion?: SpecMotion;
+  /** Force reduced motion on or off for every animation, instead of the OS setting. */
+  reduceMotion?: boolean;
+}
+
+interface TextAnimationThemeProviderProps {
+  theme: TextAnimationTheme;
+  children?: ReactNode;
+}
+
+// ---------------------------------------------------------------------------
+// Merging
+// ---------------------------------------------------------------------------
+
+function layerTextStyles(
+  under: StyleProp<TextStyle>,
+  over: StyleProp<TextStyle>,
+): StyleProp<TextStyle> {
+  if (!under) return over;
+  if (!over) return under;
+  return [under, over];
+}
+
+function layerPauses(under?: TimelinePauses, over?: TimelinePauses): TimelinePauses | undefined {
+  if (!under) return over;
+  if (!over) return under;
+  return { ...under, ...over };
+}
+
+function layerMotion(under?: SpecMotion, over?: SpecMotion): SpecMotion | undefined {
+  if (!under) return over;
+  if (!over) return under;
+  return { ...under, ...over };
+}
+
+function mergeThemes(outer: TextAnimationTheme, inner: TextAnimationTheme): TextAnimationTheme {
+  return {
+    ...outer,
+    ...inner,
+    textStyle: layerTextStyles(outer.textStyle, inner.textStyle),
+    pauses: layerPauses(outer.pauses, inner.pauses),
+    motion: layerMotion(outer.motion, inner.motion),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Context
+// ---------------------------------------------------------------------------
+
+const ThemeContext = createContext<TextAnimationTheme>({});
+
+export function TextAnimationThemeProvider({ theme, children }: TextAnimationThemeProviderProps) {
+  const outer = useContext(ThemeContext);
+  const merged = useMemo(() => mergeThemes(outer, theme), [outer, theme]);
+  return <ThemeContext.Provider value={merged}>{children}</ThemeContext.Provider>;
+}
+
+export function useTextAnimationTheme(): TextAnimationTheme {
+  return useContext(ThemeContext);
+}
+
+/** `props` with unset values filled in from the theme. */
+export function useThemedProps<P extends TextAnimationProps>(props: P): P {
+  const theme = useContext(ThemeContext);
+  return {
+    ...props,
+    textStyle: layerTextStyles(theme.textStyle, props.textStyle),
+    accentColor: props.accentColor ?? theme.accentColor,
+    pauses: layerPauses(theme.pauses, props.pauses),
+    punctuationRules: props.punctuationRules ?? theme.punctuationRules,
+    speed: props.speed ?? theme.speed,
+    motion: layerMotion(theme.motion, props.motion),
+    reduceMotion: props.reduceMotion ?? theme.reduceMotion,
+  };
+}
+
+export default TextAnimationThemeProvider;
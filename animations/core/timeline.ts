@@ -0,0 +1,336 @@
+/**
+ * Timeline — Turns text plus an animation's timing settings into a schedule.
+ *
+ * Every animation in this folder splits its text into units (words or
+ * characters) and staggers them, optionally pausing after punctuation.
+ * This module is the single implementation of that logic. It is pure:
+ * no React, no Reanimated, so timing can be computed and inspected anywhere.
+ */
+
+import { splitGraphemes } from './graphemes';
+import { continuesPunctuation, DEFAULT_PUNCTUATION, matchPunctuation } from './punctuation';
+import type { PunctuationRule, PunctuationRules } from './punctuation';
+import { autoSegmenter } from './segmentation';
+import type { WordSegmenter } from './segmentation';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type TimelineUnitKind = 'word' | 'char';
+
+/**
+ * What the stagger steps over:
+ * - `unit` (default): each word or character starts after the previous one.
+ * - `sentence` / `line`: all units of a sentence (or a line of the text)
+ *   start together, and sentences or lines are staggered instead.
+ */
+export type StaggerBy = 'unit' | 'sentence' | 'line';
+
+export interface TimelineSettings {
+  /** Whether the text is animated word by word or character by character. */
+  unit: TimelineUnitKind;
+  /**
+   * Splits runs without spaces (Chinese, Japanese, Thai) into words.
+   * Word units only. Defaults to `autoSegmenter`.
+   */
+  segmenter?: WordSegmenter;
+  /** Time between the start of one unit and the start of the next. */
+  staggerMs: number;
+  /** How long a single unit takes to settle once it starts. */
+  unitDurationMs: number;
+  /** Add a pause after units ending in punctuation. */
+  punctuationDelay?: boolean;
+  /**
+   * Which endings pause and for how long. Defaults to `DEFAULT_PUNCTUATION`:
+   * long after . ! ? 。 and ellipses, short after , ; : 、 and dashes.
+   */
+  punctuationRules?: PunctuationRules;
+  /** Pause for rules marked `long` (ms). */
+  punctPauseLong?: number;
+  /** Pause for rules marked `short` (ms). */
+  punctPauseShort?: number;
+  /**
+   * Pause after a unit followed by a blank line (ms). Replaces the
+   * punctuation pause. Set to 0 to disable.
+   */
+  paragraphPause?: number;
+  /** Time before the first unit starts. */
+  offsetMs?: number;
+  /**
+   * Splits the units into two groups at `ratio` of the unit count and
+   * inserts `pauseMs` between them. The pause replaces the punctuation
+   * pause of the last unit in the first group. Ignored unless `staggerBy`
+   * is `unit`.
+   */
+  groupBreak?: { ratio: number; pauseMs: number };
+  /** Defaults to `unit`. */
+  staggerBy?: StaggerBy;
+  /**
+   * Time between two sentences or lines with `staggerBy` `sentence` or
+   * `line`, before pauses. Defaults to 250.
+   */
+  groupStaggerMs?: number;
+  /**
+   * Cap on the total duration (ms). Longer schedules are compressed:
+   * every start moves closer to the first by the same factor. Units keep
+   * their duration, so when one unit (after `offsetMs`) is longer than the
+   * cap, all units start together and the total still runs past it.
+   */
+  maxDurationMs?: number;
+}
+
+/** The pause lengths of `TimelineSettings`, overridable per instance. */
+export type TimelinePauses = Pick<
+  TimelineSettings,
+  'punctPauseLong' | 'punctPauseShort' | 'paragraphPause'
+>;
+
+/** A unit of text plus the whitespace around it. */
+export interface TextToken {
+  text: string;
+  /** Indentation before the first unit of a line. */
+  leading: string;
+  /** Spaces and tabs between this unit and the next one on its line. */
+  trailing: string;
+  /** Newlines after this unit; 2 or more is a paragraph break. */
+  lineBreaks: number;
+}
+
+export interface TimelineUnit extends TextToken {
+  index: number;
+  /** Start time relative to the beginning of the animation (ms). */
+  start: number;
+  duration: number;
+  /** `start + duration`. */
+  end: number;
+}
+
+export interface Timeline {
+  units: TimelineUnit[];
+  /** Time at which the last unit has settled (ms). */
+  totalDuration: number;
+}
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+const DEFAULTS = {
+  punctPauseLong: 300,
+  punctPauseShort: 150,
+  paragraphPause: 600,
+  groupStaggerMs: 250,
+};
+
+const NEWLINE = /\r\n|\r|\n/;
+
+// ---------------------------------------------------------------------------
+// Splitting
+// ---------------------------------------------------------------------------
+
+/**
+ * Splits into words, keeping the whitespace around each one so the text
+ * renders exactly as written. Blank leading lines are dropped. Each
+ * whitespace-free run is further split by `segmenter`.
+ */
+export function tokenizeWords(
+  text: string,
+  segmenter: WordSegmenter = autoSegmenter,
+): TextToken[] {
+  const tokens: TextToken[] = [];
+  text.split(NEWLINE).forEach((line, lineIndex) => {
+    if (lineIndex > 0 && tokens.length > 0) tokens[tokens.length - 1].lineBreaks++;
+    const indent = /^\s*/.exec(line)?.[0] ?? '';
+    const pattern = /(\S+)(\s*)/g;
+    let match: RegExpExecArray | null;
+    let first = true;
+    while ((match = pattern.exec(line)) !== null) {
+      const [, run, spaces] = match;
+      const pieces = segmenter(run).filter((piece) => piece.length > 0);
+      if (pieces.length === 0) pieces.push(run);
+      pieces.forEach((piece, i) => {
+        tokens.push({
+          text: piece,
+          leading: first && i === 0 ? indent : '',
+          trailing: i === pieces.length - 1 ? spaces : '',
+          lineBreaks: 0,
+        });
+      });
+      first = false;
+    }
+  });
+  return tokens;
+}
+
+/**
+ * Splits into grapheme clusters. Spaces and tabs are units of their own;
+ * newlines are folded into the preceding unit's `lineBreaks`.
+ */
+export function tokenizeChars(text: string): TextToken[] {
+  const tokens: TextToken[] = [];
+  for (const char of splitChars(text)) {
+    if (NEWLINE.test(char)) {
+      if (tokens.length > 0) tokens[tokens.length - 1].lineBreaks++;
+      continue;
+    }
+    tokens.push({ text: char, leading: '', trailing: '', lineBreaks: 0 });
+  }
+  return tokens;
+}
+
+export function tokenize(
+  text: string,
+  unit: TimelineUnitKind,
+  segmenter?: WordSegmenter,
+): TextToken[] {
+  return unit === 'word' ? tokenizeWords(text, segmenter) : tokenizeChars(text);
+}
+
+export function splitWords(text: string, segmenter?: WordSegmenter): string[] {
+  return tokenizeWords(text, segmenter).map((t) => t.text);
+}
+
+/** Splits into grapheme clusters, so emoji and accented letters stay whole. */
+export function splitChars(text: string): string[] {
+  return splitGraphemes(text);
+}
+
+export function splitUnits(text: string, unit: TimelineUnitKind): string[] {
+  return tokenize(text, unit).map((t) => t.text);
+}
+
+/** The unit as rendered: its text with the surrounding spaces, minus newlines. */
+export function unitDisplayText(unit: TextToken): string {
+  return unit.leading + unit.text + unit.trailing;
+}
+
+// ---------------------------------------------------------------------------
+// Timing
+// ---------------------------------------------------------------------------
+
+/** Characters looked back over to match endings such as `...` or `!")`. */
+const CHAR_TAIL = 4;
+
+/**
+ * The punctuation rule unit `i` ends with. Character units see one
+ * grapheme at a time, so they match against the last few characters, and
+ * match only once a run such as `..."` is over.
+ */
+function punctuationAt(
+  tokens: TextToken[],
+  i: number,
+  settings: TimelineSettings,
+): PunctuationRule | undefined {
+  const rules = settings.punctuationRules ?? DEFAULT_PUNCTUATION;
+  let tail = tokens[i].text;
+  if (settings.unit === 'char') {
+    const next = tokens[i + 1];
+    if (next && tokens[i].lineBreaks === 0 && continuesPunctuation(next.text, rules)) {
+      return undefined;
+    }
+    tail = tokens.slice(Math.max(0, i - CHAR_TAIL + 1), i + 1).map((t) => t.text).join('');
+  }
+  return matchPunctuation(tail, rules);
+}
+
+function punctuationPause(tokens: TextToken[], i: number, settings: TimelineSettings): number {
+  if (!settings.punctuationDelay) return 0;
+  const rule = punctuationAt(tokens, i, settings);
+  if (!rule) return 0;
+  if (rule.pause === 'long') return settings.punctPauseLong ?? DEFAULTS.punctPauseLong;
+  if (rule.pause === 'short') return settings.punctPauseShort ?? DEFAULTS.punctPauseShort;
+  return rule.pause;
+}
+
+function pauseAfter(tokens: TextToken[], i: number, settings: TimelineSettings): number {
+  if (tokens[i].lineBreaks >= 2) return settings.paragraphPause ?? DEFAULTS.paragraphPause;
+  return punctuationPause(tokens, i, settings);
+}
+
+/** Whether unit `i` is the last of its sentence or line. */
+function endsGroup(tokens: TextToken[], i: number, settings: TimelineSettings): boolean {
+  if (i === tokens.length - 1 || tokens[i].lineBreaks > 0) return true;
+  return settings.staggerBy === 'sentence' && punctuationAt(tokens, i, settings)?.pause === 'long';
+}
+
+function totalDuration(units: TimelineUnit[]): number {
+  return units.reduce((max, u) => Math.max(max, u.end), 0);
+}
+
+/**
+ * Moves every start towards `offset` so the last unit ends by `maxMs`, or
+ * as close as it gets: at worst every unit starts at `offset`.
+ */
+function compress(units: TimelineUnit[], offset: number, maxMs: number): void {
+  const lastStart = units.reduce((max, u) => Math.max(max, u.start), offset);
+  const longest = units.reduce((max, u) => Math.max(max, u.duration), 0);
+  if (lastStart === offset || lastStart + longest <= maxMs) return;
+  const factor = Math.max(0, maxMs - longest - offset) / (lastStart - offset);
+  for (const unit of units) {
+    unit.start = offset + (unit.start - offset) * factor;
+    unit.end = unit.start + unit.duration;
+  }
+}
+
+export function computeTimeline(text: string, settings: TimelineSettings): Timeline {
+  const tokens = tokenize(text, settings.unit, settings.segmenter);
+  const grouped = settings.staggerBy !== undefined && settings.staggerBy !== 'unit';
+  const breakAt = settings.groupBreak && !grouped
+    ? Math.ceil(tokens.length * settings.groupBreak.ratio)
+    : -1;
+
+  const units: TimelineUnit[] = [];
+  const offset = settings.offsetMs ?? 0;
+  let cumulative = offset;
+  for (let i = 0; i < tokens.length; i++) {
+    const start = cumulative;
+    units.push({
+      ...tokens[i],
+      index: i,
+      start,
+      duration: settings.unitDurationMs,
+      end: start + settings.unitDurationMs,
+    });
+    if (grouped) {
+      if (endsGroup(tokens, i, settings)) {
+        cumulative += settings.groupStaggerMs ?? DEFAULTS.groupStaggerMs;
+        cumulative += pauseAfter(tokens, i, settings);
+      }
+      continue;
+    }
+    cumulative += settings.staggerMs;
+    if (settings.groupBreak && i === breakAt - 1) {
+      cumulative = start + settings.staggerMs + settings.groupBreak.pauseMs;
+    } else {
+      cumulative += pauseAfter(tokens, i, settings);
+    }
+  }
+  if (settings.maxDurationMs !== undefined) compress(units, offset, settings.maxDurationMs);
+
+  return { units, totalDuration: totalDuration(units) };
+}
+
+/**
+ * `timeline` with the units `settled` picks finished from the start: they
+ * end at 0, and the units after them close the gap they leave.
+ */
+export function settleUnits(
+  timeline: Timeline,
+  settled: (unit: TimelineUnit) => boolean,
+): Timeline {
+  let removed = 0;
+  let gapStart: number | undefined;
+  const units = timeline.units.map((unit) => {
+    if (settled(unit)) {
+      if (gapStart === undefined) gapStart = unit.start;
+      return { ...unit, start: -unit.duration, end: 0 };
+    }
+    if (gapStart !== undefined) {
+      removed += unit.start - gapStart;
+      gapStart = undefined;
+    }
+    return { ...unit, start: unit.start - removed, end: unit.end - removed };
+  });
+  return { units, totalDuration: totalDuration(units) };
+}
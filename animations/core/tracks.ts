@@ -0,0 +1,240 @@
+/**
+ * Tracks — Evaluates a spec's tracks on the UI thread.
+ *
+ * Each unit resolves its spec tracks once: easing descriptions become
+ * functions, spring presets become configs, color tokens become color
+ * strings and crescendo values become plain numbers. `applyTracks` then
+ * writes every property's value at the current frame into a style, using
+ * the same `motion.ts` helpers a hand-written unit would call.
+ */
+
+import { interpolate, interpolateColor } from 'react-native-reanimated';
+import type { EasingFunction } from 'react-native-reanimated';
+import type { TextStyle } from 'react-native';
+import { keyframes, keyframeSegment, progressAt, spring } from './motion';
+import type { Keyframe, SpringConfig } from './motion';
+import { resolveEasing } from './easing';
+import { springFor } from './presets';
+import { withAlpha } from './textStyle';
+import { isColorProperty, isTransformProperty, keyframeTimes } from './spec';
+import type {
+  AnimatedProperty,
+  ColorSpec,
+  ExitOffsets,
+  NumberSpec,
+  Track,
+  TransformProperty,
+} from './spec';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** The colors `text` and `accent` tokens stand for. */
+export interface TrackColors {
+  text: string;
+  accent: string;
+}
+
+interface UnitTrackBase {
+  property: AnimatedProperty;
+  isColor: boolean;
+  isTransform: boolean;
+  mirror: boolean;
+  delayMs: number;
+}
+
+/** Tween and stops tracks: an eased progress mapped through stops. */
+interface ProgressTrack extends UnitTrackBase {
+  kind: 'progress';
+  durationMs: number;
+  easing?: EasingFunction;
+  offsets: number[];
+  values: number[];
+  colors: string[];
+}
+
+/** Keyframes in ms; color tracks keep their values in `colors`. */
+interface KeyframesUnitTrack extends UnitTrackBase {
+  kind: 'keyframes';
+  frames: Keyframe[];
+  colors: string[];
+}
+
+interface SpringUnitTrack extends UnitTrackBase {
+  kind: 'spring';
+  from: number;
+  to: number;
+  spring: SpringConfig;
+}
+
+/** A track resolved for one unit, ready to evaluate in a worklet. */
+export type UnitTrack = ProgressTrack | KeyframesUnitTrack | SpringUnitTrack;
+
+export interface TrackFrame {
+  /** Time since the tracks started (ms). */
+  t: number;
+  /** Exit progress (0..1). */
+  leave: number;
+  /** Play progress tracks backwards as the unit leaves, instead of fading it. */
+  rewind: boolean;
+  offsets?: ExitOffsets;
+  /** -1 for right-to-left text. */
+  sign: number;
+}
+
+type TrackTransform = Exclude<TextStyle['transform'], string | undefined>[number];
+
+/** A style being built inside `useAnimatedStyle`. */
+export interface TrackStyle {
+  opacity?: number;
+  textShadowRadius?: number;
+  color?: string;
+  textShadowColor?: string;
+  transform: TrackTransform[];
+}
+
+// ---------------------------------------------------------------------------
+// Resolving
+// ---------------------------------------------------------------------------
+
+function resolveNumber(value: NumberSpec | ColorSpec, intensity: number): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'object' && 'base' in value) {
+    return value.base + value.perIntensity * intensity;
+  }
+  return 0;
+}
+
+function resolveColor(value: NumberSpec | ColorSpec, colors: TrackColors): string {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'object' && 'token' in value) {
+    const color = colors[value.token];
+    return value.alpha === undefined ? color : withAlpha(color, value.alpha);
+  }
+  return colors.text;
+}
+
+function resolveTrack(track: Track, colors: TrackColors, intensity: number): UnitTrack {
+  const base: UnitTrackBase = {
+    property: track.property,
+    isColor: isColorProperty(track.property),
+    isTransform: isTransformProperty(track.property),
+    mirror: track.mirror ?? false,
+    delayMs: track.delayMs ?? 0,
+  };
+  if (track.type === 'keyframes') {
+    const times = keyframeTimes(track);
+    return {
+      ...base,
+      kind: 'keyframes',
+      frames: track.keyframes.map((frame, i) => ({
+        at: times[i],
+        value: base.isColor ? 0 : resolveNumber(frame.value, intensity),
+        easing: resolveEasing(frame.easing),
+        spring: frame.spring && springFor(frame.spring),
+      })),
+      colors: base.isColor
+        ? track.keyframes.map((frame) => resolveColor(frame.value, colors))
+        : [],
+    };
+  }
+  if (track.type === 'spring') {
+    const { from, to } = track;
+    return { ...base, kind: 'spring', from, to, spring: springFor(track.spring) };
+  }
+  const stops =
+    track.type === 'tween'
+      ? [
+          { at: 0, value: track.from },
+          { at: 1, value: track.to },
+        ]
+      : track.stops;
+  return {
+    ...base,
+    kind: 'progress',
+    durationMs: track.durationMs,
+    easing: resolveEasing(track.easing),
+    offsets: stops.map((stop) => stop.at),
+    values: base.isColor ? [] : stops.map((stop) => resolveNumber(stop.value, intensity)),
+    colors: base.isColor ? stops.map((stop) => resolveColor(stop.value, colors)) : [],
+  };
+}
+
+/** `tracks` for a unit with the given crescendo `intensity` (0 without one). */
+export function resolveTracks(
+  tracks: Track[],
+  colors: TrackColors,
+  intensity = 0,
+): UnitTrack[] {
+  return tracks.map((track) => resolveTrack(track, colors, intensity));
+}
+
+// ---------------------------------------------------------------------------
+// Evaluating
+// ---------------------------------------------------------------------------
+
+/**
+ * Value of `track` `t` ms after it starts. `keep` scales the progress of
+ * progress tracks, so 1 -> 0 plays them back to their start.
+ */
+export function trackValue(track: UnitTrack, t: number, keep = 1): number | string {
+  'worklet';
+  const local = t - track.delayMs;
+  if (track.kind === 'keyframes') {
+    if (!track.isColor) return keyframes(local, track.frames);
+    const { index, progress } = keyframeSegment(local, track.frames);
+    if (index === 0) return track.colors[0];
+    return interpolateColor(progress, [0, 1], [track.colors[index - 1], track.colors[index]]);
+  }
+  if (track.kind === 'spring') return spring(local, track.from, track.to, track.spring);
+  const progress = progressAt(local, track.durationMs, track.easing) * keep;
+  return track.isColor
+    ? interpolateColor(progress, track.offsets, track.colors)
+    : interpolate(progress, track.offsets, track.values);
+}
+
+function transformEntry(property: TransformProperty, value: number): TrackTransform {
+  'worklet';
+  switch (property) {
+    case 'translateX':
+      return { translateX: value };
+    case 'translateY':
+      return { translateY: value };
+    case 'scale':
+      return { scale: value };
+    case 'scaleX':
+      return { scaleX: value };
+    case 'scaleY':
+      return { scaleY: value };
+    case 'rotate':
+      return { rotate: `${value}deg` };
+    case 'skewX':
+      return { skewX: `${value}deg` };
+    case 'skewY':
+      return { skewY: `${value}deg` };
+  }
+}
+
+/** Writes the value of every track at `frame` into `style`; transforms in order. */
+export function applyTracks(style: TrackStyle, tracks: UnitTrack[], frame: TrackFrame): void {
+  'worklet';
+  const keep = frame.rewind ? 1 - frame.leave : 1;
+  for (let i = 0; i < tracks.length; i++) {
+    const track = tracks[i];
+    const property = track.property;
+    const value = trackValue(track, frame.t, keep);
+    if (typeof value === 'string') {
+      if (property === 'color' || property === 'textShadowColor') style[property] = value;
+      continue;
+    }
+    const offset = frame.offsets?.[property as keyof ExitOffsets] ?? 0;
+    let number = (value + offset * frame.leave) * (track.mirror ? frame.sign : 1);
+    if (property === 'opacity' && !frame.rewind) number *= 1 - frame.leave;
+    if (property === 'opacity' || property === 'textShadowRadius') {
+      style[property] = number;
+    } else if (property !== 'color' && property !== 'textShadowColor') {
+      style.transform.push(transformEntry(property, number));
+    }
+  }
+}
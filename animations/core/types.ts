@@ -0,0 +1,142 @@
+/**
+ * Types — The public props shared by every animation in this folder.
+ */
+
+import type { AccessibilityRole, StyleProp, TextStyle, ViewStyle } from 'react-native';
+import type { SharedValue } from 'react-native-reanimated';
+import type { TextDirection } from './direction';
+import type { LongTextOptions } from './longText';
+import type { MarkupStyles } from './markup';
+import type { PunctuationRules } from './punctuation';
+import type { SpecMotion } from './spec';
+import type { TimelinePauses } from './timeline';
+import type { WordSegmenter } from './segmentation';
+
+export interface PlaybackController {
+  /** Position within the entrance (0..1), kept up to date while playing. */
+  progress: SharedValue<number>;
+  /** While true the animation holds its current frame. */
+  paused: SharedValue<boolean>;
+  /** Set by `seek`; the animation jumps to `progress` on its next frame. */
+  seekRequested: SharedValue<boolean>;
+  pause: () => void;
+  resume: () => void;
+  /** Jump to a position within the entrance (0..1). */
+  seek: (position: number) => void;
+}
+
+/**
+ * How an animation leaves when `isPlaying` becomes false.
+ * - `reverse` plays the entrance backwards from the current frame.
+ * - `custom` plays the animation's own exit (e.g. words sliding out).
+ * - `instant` snaps straight back to the initial state.
+ */
+export type ExitMode = 'reverse' | 'custom' | 'instant';
+
+export interface TextAnimationProps {
+  /** The text to animate. */
+  text: string;
+  /** true = play, false = exit (see `exit`). */
+  isPlaying: boolean;
+  /** Pause after punctuation (default varies per animation). */
+  punctuationDelay?: boolean;
+  /**
+   * Which endings pause and whether the pause is long or short, e.g.
+   * `PUNCTUATION_PRESETS.en` or a custom table. Defaults to rules covering
+   * Latin, CJK, Arabic and Devanagari punctuation.
+   */
+  punctuationRules?: PunctuationRules;
+  /** Pause lengths (ms), over the animation's spec. */
+  pauses?: TimelinePauses;
+  /** Called once the entrance has fully settled. */
+  onComplete?: () => void;
+  /**
+   * Playback rate applied to every delay, duration and spring.
+   * 0.25 = slow motion, 2 = double speed. Defaults to 1.
+   */
+  speed?: number;
+  /**
+   * Externally owned position within the entrance (0..1). When set, the
+   * animation renders that frame and never advances on its own.
+   */
+  progress?: SharedValue<number>;
+  /** Pause, resume and seek playback. Create one with `usePlaybackController`. */
+  controller?: PlaybackController;
+  /** How the text leaves when `isPlaying` becomes false. Defaults to `instant`. */
+  exit?: ExitMode;
+  /** Called once the exit has finished and the text is back to its initial state. */
+  onExitComplete?: () => void;
+  /**
+   * Play the entrance, hold for `holdMs`, play the exit (unless `exit` is
+   * `instant`) and start again.
+   */
+  loop?: boolean;
+  /** Total number of plays while looping. Defaults to forever. */
+  repeatCount?: number;
+  /** How long the settled text holds before looping (ms). Defaults to 1000. */
+  holdMs?: number;
+  /**
+   * Writing direction. `auto` (default) detects it from the first strongly
+   * directional character. RTL text lays out right to left and mirrors
+   * horizontal motion.
+   */
+  direction?: TextDirection | 'auto';
+  /**
+   * Splits text written without spaces (Chinese, Japanese, Thai) into
+   * words. Word-level animations only. Defaults to `autoSegmenter`.
+   */
+  segmenter?: WordSegmenter;
+  /**
+   * Parse inline markup in `text`: `*emphasis*` and `{tag}…{/tag}`.
+   * Markup only styles the text; timing is the same as without it.
+   */
+  markup?: boolean;
+  /** Style per markup tag, merged over the built-in `emphasis` and `accent`. */
+  markupStyles?: MarkupStyles;
+  /** Style of the container the units are laid out in. */
+  style?: StyleProp<ViewStyle>;
+  /**
+   * Typography of every unit (fontFamily, fontSize, color, letterSpacing,
+   * lineHeight, …), applied over the spec's `typography`.
+   */
+  textStyle?: StyleProp<TextStyle>;
+  /** Shimmer / emphasis color and the `{accent}` markup color. */
+  accentColor?: string;
+  /**
+   * Easing and spring per phase (`enter`, `exit`, `emphasis`), replacing
+   * the spec's own: a preset name such as `'snappy'` or a custom curve.
+   */
+  motion?: SpecMotion;
+  /**
+   * Screen readers see the animation as one element with this role
+   * (e.g. `header`) instead of one per unit. Defaults to `text`.
+   */
+  accessibilityRole?: AccessibilityRole;
+  /** What screen readers announce. Defaults to the text without markup. */
+  accessibilityLabel?: string;
+  /**
+   * Play the reduced-motion variant (a plain fade of the whole text).
+   * Defaults to the OS "reduce motion" setting; set it to force either.
+   */
+  reduceMotion?: boolean;
+  /**
+   * Long-form mode for paragraphs: `true` or options. Caps the entrance
+   * and exit, can stagger by sentence or line, and settles text outside
+   * the window instantly.
+   */
+  longText?: boolean | LongTextOptions;
+}
+
+/** Options accepted by each animation's `get<Name>Duration` helper. */
+export type DurationOptions = Pick<
+  TextAnimationProps,
+  | 'punctuationDelay'
+  | 'punctuationRules'
+  | 'pauses'
+  | 'speed'
+  | 'segmenter'
+  | 'markup'
+  | 'motion'
+  | 'reduceMotion'
+  | 'longText'
+>;
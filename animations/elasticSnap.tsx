@@ -2,163 +2,67 @@
  * Elastic Snap — Words snap into position with elastic spring
  *
  * Each word animates three properties:
- *   - translateX: 20 -> 0 via withSpring (damping:14, stiffness:300, mass:0.6)
- *   - scaleY: 0.3 -> 1 via withSpring (damping:8, stiffness:280, mass:0.5)
+ *   - translateX: 20 -> 0 via spring (damping:14, stiffness:300, mass:0.6)
+ *   - scaleY: 0.3 -> 1 via spring (damping:8, stiffness:280, mass:0.5)
  *   - opacity: 0 -> 1 in 100ms
  * Stagger: 90ms between words.
  */
 
-import React, { useEffect, useMemo } from 'react';
-import { View, StyleSheet } from 'react-native';
-import Animated, {
-  useSharedValue,
-  useAnimatedStyle,
-  withTiming,
-  withDelay,
-  withSpring,
-} from 'react-native-reanimated';
+import React from 'react';
+import { getSpecDuration } from './core/spec';
+import type { AnimationSpec } from './core/spec';
+import { SpecAnimation } from './core/specAnimation';
+import type { DurationOptions, TextAnimationProps } from './core/types';
 
 // ---------------------------------------------------------------------------
-// Types
+// Spec
 // ---------------------------------------------------------------------------
 
-interface TextAnimationProps {
-  text: string;
-  isPlaying: boolean;
-  punctuationDelay?: boolean;
-}
-
-// ---------------------------------------------------------------------------
-// Config
-// ---------------------------------------------------------------------------
-
-const CONFIG = {
-  fontSize: 20,
-  fontWeight: '600' as const,
-  color: '#000000',
-  punctPauseLong: 300,
-  punctPauseShort: 150,
+export const ELASTIC_SNAP_SPEC: AnimationSpec = {
+  name: 'Elastic Snap',
+  unit: 'word',
+  staggerMs: 90,
+  punctuationDelay: false,
+  tracks: [
+    {
+      type: 'spring',
+      property: 'translateX',
+      mirror: true,
+      from: 20,
+      to: 0,
+      spring: 'snappy',
+    },
+    {
+      type: 'spring',
+      property: 'scaleY',
+      from: 0.3,
+      to: 1,
+      spring: 'elastic',
+    },
+    { type: 'tween', property: 'opacity', from: 0, to: 1, durationMs: 100 },
+  ],
+  exit: {
+    staggerMs: 50,
+    durationMs: 200,
+    easing: 'gentleIn',
+    offsets: { scaleY: -0.7 },
+  },
 };
 
-// ---------------------------------------------------------------------------
-// Helpers
-// ---------------------------------------------------------------------------
-
-function splitWords(text: string): string[] {
-  return text.split(' ').filter(w => w.length > 0);
-}
-
-function computeWordDelays(
-  words: string[],
-  staggerMs: number,
-  punctDelay: boolean,
-): number[] {
-  if (!punctDelay) return words.map((_, i) => i * staggerMs);
-  const delays: number[] = [];
-  let cumulative = 0;
-  for (let i = 0; i < words.length; i++) {
-    delays.push(cumulative);
-    cumulative += staggerMs;
-    const last = words[i].slice(-1);
-    if ('.!?'.includes(last)) cumulative += CONFIG.punctPauseLong;
-    else if (last === ',') cumulative += CONFIG.punctPauseShort;
-  }
-  return delays;
-}
-
-// ---------------------------------------------------------------------------
-// Animated Word
-// ---------------------------------------------------------------------------
-
-function SnapWord({
-  word,
-  delay,
-  isPlaying,
-}: {
-  word: string;
-  delay: number;
-  isPlaying: boolean;
-}) {
-  const translateX = useSharedValue(20);
-  const scaleY = useSharedValue(0.3);
-  const opacity = useSharedValue(0);
-
-  useEffect(() => {
-    if (isPlaying) {
-      translateX.value = 20;
-      scaleY.value = 0.3;
-      opacity.value = 0;
-
-      translateX.value = withDelay(
-        delay,
-        withSpring(0, { damping: 14, stiffness: 300, mass: 0.6 }),
-      );
-
-      scaleY.value = withDelay(
-        delay,
-        withSpring(1, { damping: 8, stiffness: 280, mass: 0.5 }),
-      );
-
-      opacity.value = withDelay(delay, withTiming(1, { duration: 100 }));
-    } else {
-      translateX.value = 20;
-      scaleY.value = 0.3;
-      opacity.value = 0;
-    }
-  }, [isPlaying, delay]);
-
-  const animatedStyle = useAnimatedStyle(() => ({
-    transform: [
-      { translateX: translateX.value },
-      { scaleY: scaleY.value },
-    ],
-    opacity: opacity.value,
-  }));
-
-  return (
-    <Animated.Text style={[styles.word, animatedStyle]}>
-      {word}{' '}
-    </Animated.Text>
-  );
-}
-
 // ---------------------------------------------------------------------------
 // Component
 // ---------------------------------------------------------------------------
 
-export function ElasticSnap({ text, isPlaying, punctuationDelay = false }: TextAnimationProps) {
-  const words = useMemo(() => splitWords(text), [text]);
-  const delays = useMemo(() => computeWordDelays(words, 90, punctuationDelay), [words, punctuationDelay]);
-
-  return (
-    <View style={styles.row}>
-      {words.map((word, i) => (
-        <SnapWord
-          key={`${word}-${i}`}
-          word={word}
-          delay={delays[i]}
-          isPlaying={isPlaying}
-        />
-      ))}
-    </View>
-  );
+export function ElasticSnap(props: TextAnimationProps) {
+  return <SpecAnimation {...props} spec={ELASTIC_SNAP_SPEC} />;
 }
 
 // ---------------------------------------------------------------------------
-// Styles
+// Duration
 // ---------------------------------------------------------------------------
 
-const styles = StyleSheet.create({
-  row: {
-    flexDirection: 'row',
-    flexWrap: 'wrap',
-    minHeight: 30,
-  },
-  word: {
-    fontSize: CONFIG.fontSize,
-    fontWeight: CONFIG.fontWeight,
-    color: CONFIG.color,
-  },
-});
+export function getElasticSnapDuration(text: string, options?: DurationOptions): number {
+  return getSpecDuration(ELASTIC_SNAP_SPEC, text, options);
+}
 
 export default ElasticSnap;
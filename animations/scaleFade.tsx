@@ -1,162 +1,65 @@
 /**
  * Scale Fade — Each word grows from small to full size with fade.
  *
- * Self-contained — copy this file to your project.
+ * Copy this file and the core/ folder to your project.
  * Requires: react-native-reanimated
  */
 
-import React, { useEffect, useMemo } from 'react';
-import { StyleSheet, View } from 'react-native';
-import Animated, {
-  Easing,
-  useAnimatedStyle,
-  useSharedValue,
-  withDelay,
-  withTiming,
-} from 'react-native-reanimated';
+import React from 'react';
+import { getSpecDuration } from './core/spec';
+import type { AnimationSpec } from './core/spec';
+import { SpecAnimation } from './core/specAnimation';
+import type { DurationOptions, TextAnimationProps } from './core/types';
 
 // ---------------------------------------------------------------------------
-// Types
+// Spec
 // ---------------------------------------------------------------------------
 
-interface TextAnimationProps {
-  text: string;
-  isPlaying: boolean;
-  punctuationDelay?: boolean;
-}
-
-// ---------------------------------------------------------------------------
-// Config
-// ---------------------------------------------------------------------------
-
-const CONFIG = {
-  fontSize: 20,
-  fontWeight: '600' as const,
-  color: '#000000',
-  punctPauseLong: 300,
-  punctPauseShort: 150,
+export const SCALE_FADE_SPEC: AnimationSpec = {
+  name: 'Scale Fade',
+  unit: 'word',
+  staggerMs: 100,
+  punctuationDelay: true,
+  tracks: [
+    {
+      type: 'tween',
+      property: 'opacity',
+      from: 0,
+      to: 1,
+      durationMs: 400,
+      easing: 'gentle',
+    },
+    {
+      type: 'tween',
+      property: 'scale',
+      from: 0.85,
+      to: 1,
+      durationMs: 500,
+      easing: 'smooth',
+    },
+  ],
+  exit: {
+    staggerMs: 60,
+    durationMs: 300,
+    easing: 'gentleIn',
+    offsets: { scale: -0.15 },
+  },
 };
 
 // ---------------------------------------------------------------------------
-// Helpers
+// Component
 // ---------------------------------------------------------------------------
 
-function splitWords(text: string): string[] {
-  return text.split(' ').filter((w) => w.length > 0);
-}
-
-function computeWordDelays(
-  words: string[],
-  staggerMs: number,
-  punctDelay: boolean,
-): number[] {
-  if (!punctDelay) return words.map((_, i) => i * staggerMs);
-  const delays: number[] = [];
-  let cumulative = 0;
-  for (let i = 0; i < words.length; i++) {
-    delays.push(cumulative);
-    cumulative += staggerMs;
-    const last = words[i].slice(-1);
-    if ('.!?'.includes(last)) cumulative += CONFIG.punctPauseLong;
-    else if (last === ',') cumulative += CONFIG.punctPauseShort;
-  }
-  return delays;
-}
+export const ScaleFade: React.FC<TextAnimationProps> = (props) => (
+  <SpecAnimation {...props} spec={SCALE_FADE_SPEC} />
+);
 
 // ---------------------------------------------------------------------------
-// ScaleFadeWord
+// Duration
 // ---------------------------------------------------------------------------
 
-interface ScaleFadeWordProps {
-  word: string;
-  delay: number;
-  isPlaying: boolean;
+export function getScaleFadeDuration(text: string, options?: DurationOptions): number {
+  return getSpecDuration(SCALE_FADE_SPEC, text, options);
 }
 
-const ScaleFadeWord: React.FC<ScaleFadeWordProps> = ({
-  word,
-  delay,
-  isPlaying,
-}) => {
-  const scale = useSharedValue(0.85);
-  const opacity = useSharedValue(0);
-
-  useEffect(() => {
-    if (isPlaying) {
-      scale.value = 0.85;
-      opacity.value = 0;
-
-      scale.value = withDelay(
-        delay,
-        withTiming(1, { duration: 500, easing: Easing.out(Easing.poly(3)) }),
-      );
-
-      opacity.value = withDelay(
-        delay,
-        withTiming(1, { duration: 400, easing: Easing.out(Easing.quad) }),
-      );
-    } else {
-      scale.value = 0.85;
-      opacity.value = 0;
-    }
-  }, [isPlaying, delay]);
-
-  const animatedStyle = useAnimatedStyle(() => ({
-    opacity: opacity.value,
-    transform: [{ scale: scale.value }],
-  }));
-
-  return (
-    <Animated.Text style={[styles.word, animatedStyle]}>
-      {word}{' '}
-    </Animated.Text>
-  );
-};
-
-// ---------------------------------------------------------------------------
-// ScaleFade
-// ---------------------------------------------------------------------------
-
-export const ScaleFade: React.FC<TextAnimationProps> = ({
-  text,
-  isPlaying,
-  punctuationDelay = true,
-}) => {
-  const words = useMemo(() => splitWords(text), [text]);
-  const delays = useMemo(
-    () => computeWordDelays(words, 100, punctuationDelay),
-    [words, punctuationDelay],
-  );
-
-  return (
-    <View style={styles.row}>
-      {words.map((word, i) => (
-        <ScaleFadeWord
-          key={`${i}-${word}`}
-          word={word}
-          delay={delays[i]}
-          isPlaying={isPlaying}
-        />
-      ))}
-    </View>
-  );
-};
-
-// ---------------------------------------------------------------------------
-// Styles
-// ---------------------------------------------------------------------------
-
-const styles = StyleSheet.create({
-  row: {
-    flexDirection: 'row',
-    flexWrap: 'wrap',
-    minHeight: 30,
-  },
-  word: {
-    fontSize: CONFIG.fontSize,
-    fontWeight: CONFIG.fontWeight,
-    color: CONFIG.color,
-  },
-});
-
 export default ScaleFade;
@@ -1,208 +1,110 @@
 /**
- * Skew Pop — Words appear, then the 3rd word gets skew + color emphasis.
+ * Skew Pop — Words appear, then chosen words get skew + color emphasis.
  *
- * Self-contained — copy this file to your project.
+ * Pick the emphasized words with `emphasis`: indices, a word or pattern to
+ * match, or an automatic choice. Each pops shortly after its own entrance.
+ *
+ * Copy this file and the core/ folder to your project.
  * Requires: react-native-reanimated
  */
 
-import React, { useEffect, useMemo } from 'react';
-import { StyleSheet, View } from 'react-native';
-import Animated, {
-  Easing,
-  interpolateColor,
-  useAnimatedStyle,
-  useSharedValue,
-  withDelay,
-  withSequence,
-  withTiming,
-} from 'react-native-reanimated';
+import React from 'react';
+import { getSpecDuration } from './core/spec';
+import type { AnimationSpec, SpecDurationOptions } from './core/spec';
+import type { EmphasisSelector } from './core/emphasis';
+import { SpecAnimation } from './core/specAnimation';
+import type { TextAnimationProps } from './core/types';
 
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 
-interface TextAnimationProps {
-  text: string;
-  isPlaying: boolean;
-  punctuationDelay?: boolean;
-}
-
-// ---------------------------------------------------------------------------
-// Config
-// ---------------------------------------------------------------------------
-
-const CONFIG = {
-  fontSize: 20,
-  fontWeight: '600' as const,
-  color: '#000000',
-  accentColor: '#FC2D50',
-  punctPauseLong: 300,
-  punctPauseShort: 150,
-};
-
-// ---------------------------------------------------------------------------
-// Helpers
-// ---------------------------------------------------------------------------
+/**
+ * Which words to emphasize:
+ * - a word index, or several (negative counts from the end, -1 = last)
+ * - a word to match, ignoring case and surrounding punctuation
+ * - a RegExp (or `{ pattern }`) tested against each word
+ * - `{ nearest: 2 }`, the third word or the last one in shorter text
+ * - `{ auto: 'longest' }` or `{ auto: 'last' }`
+ */
+export type SkewPopEmphasis = EmphasisSelector | RegExp;
 
-function splitWords(text: string): string[] {
-  return text.split(' ').filter((w) => w.length > 0);
+export interface SkewPopProps extends TextAnimationProps {
+  /** Defaults to `{ nearest: 2 }`, the third word. */
+  emphasis?: SkewPopEmphasis;
 }
 
-function computeWordDelays(
-  words: string[],
-  staggerMs: number,
-  punctDelay: boolean,
-): number[] {
-  if (!punctDelay) return words.map((_, i) => i * staggerMs);
-  const delays: number[] = [];
-  let cumulative = 0;
-  for (let i = 0; i < words.length; i++) {
-    delays.push(cumulative);
-    cumulative += staggerMs;
-    const last = words[i].slice(-1);
-    if ('.!?'.includes(last)) cumulative += CONFIG.punctPauseLong;
-    else if (last === ',') cumulative += CONFIG.punctPauseShort;
-  }
-  return delays;
-}
+export type SkewPopDurationOptions = SpecDurationOptions;
 
 // ---------------------------------------------------------------------------
-// SkewPopWord
+// Spec
 // ---------------------------------------------------------------------------
 
-interface SkewPopWordProps {
-  word: string;
-  delay: number;
-  isPlaying: boolean;
-  isEmphasis: boolean;
-}
-
-const SkewPopWord: React.FC<SkewPopWordProps> = ({
-  word,
-  delay,
-  isPlaying,
-  isEmphasis,
-}) => {
-  const opacity = useSharedValue(0);
-  const skewX = useSharedValue(0);
-  const colorProgress = useSharedValue(0);
-
-  useEffect(() => {
-    if (isPlaying) {
-      opacity.value = 0;
-      skewX.value = 0;
-      colorProgress.value = 0;
-
-      opacity.value = withDelay(
-        delay,
-        withTiming(1, { duration: 300, easing: Easing.out(Easing.quad) }),
-      );
-
-      if (isEmphasis) {
-        skewX.value = withDelay(
-          600,
-          withSequence(
-            withTiming(-12, {
-              duration: 200,
-              easing: Easing.out(Easing.quad),
-            }),
-            withTiming(0, {
-              duration: 400,
-              easing: Easing.out(Easing.elastic(1.5)),
-            }),
-          ),
-        );
-
-        colorProgress.value = withDelay(
-          600,
-          withTiming(1, { duration: 400 }),
-        );
-      }
-    } else {
-      opacity.value = 0;
-      skewX.value = 0;
-      colorProgress.value = 0;
-    }
-  }, [isPlaying, delay, isEmphasis]);
-
-  const animatedStyle = useAnimatedStyle(() => {
-    const color = isEmphasis
-      ? interpolateColor(
-          colorProgress.value,
-          [0, 1],
-          [CONFIG.color, CONFIG.accentColor],
-        )
-      : CONFIG.color;
-
-    return {
-      opacity: opacity.value,
-      color,
-      transform: [{ skewX: `${skewX.value}deg` }],
-    };
-  });
-
-  return (
-    <Animated.Text
-      style={[
-        styles.word,
-        isEmphasis && styles.emphasisWeight,
-        animatedStyle,
-      ]}
-    >
-      {word}{' '}
-    </Animated.Text>
-  );
+export const SKEW_POP_SPEC: AnimationSpec = {
+  name: 'Skew Pop',
+  unit: 'word',
+  staggerMs: 80,
+  punctuationDelay: true,
+  tracks: [
+    {
+      type: 'tween',
+      property: 'opacity',
+      from: 0,
+      to: 1,
+      durationMs: 300,
+      easing: 'gentle',
+    },
+  ],
+  // The skew + color change starts 400ms after the word starts fading in.
+  // Several emphasized words pop at least 150ms apart.
+  emphasis: {
+    select: { nearest: 2 },
+    delayMs: 400,
+    staggerMs: 150,
+    tracks: [
+      {
+        type: 'tween',
+        property: 'color',
+        from: { token: 'text' },
+        to: { token: 'accent' },
+        durationMs: 400,
+      },
+      {
+        type: 'keyframes',
+        property: 'skewX',
+        mirror: true,
+        keyframes: [
+          { at: 0, value: 0 },
+          { at: 200, value: -12, easing: 'gentle' },
+          { at: 600, value: 0, easing: 'elastic' },
+        ],
+      },
+    ],
+    exitOffsets: { skewX: 12 },
+    style: { fontWeight: '800' },
+  },
+  exit: {
+    staggerMs: 50,
+    durationMs: 250,
+    easing: 'gentleIn',
+  },
 };
 
 // ---------------------------------------------------------------------------
-// SkewPop
+// Component
 // ---------------------------------------------------------------------------
 
-export const SkewPop: React.FC<TextAnimationProps> = ({
-  text,
-  isPlaying,
-  punctuationDelay = true,
-}) => {
-  const words = useMemo(() => splitWords(text), [text]);
-  const delays = useMemo(
-    () => computeWordDelays(words, 80, punctuationDelay),
-    [words, punctuationDelay],
-  );
-  const emphasisIndex = Math.min(2, words.length - 1);
-
-  return (
-    <View style={styles.row}>
-      {words.map((word, i) => (
-        <SkewPopWord
-          key={`${i}-${word}`}
-          word={word}
-          delay={delays[i]}
-          isPlaying={isPlaying}
-          isEmphasis={i === emphasisIndex}
-        />
-      ))}
-    </View>
-  );
-};
+export const SkewPop: React.FC<SkewPopProps> = (props) => (
+  <SpecAnimation {...props} spec={SKEW_POP_SPEC} />
+);
 
 // ---------------------------------------------------------------------------
-// Styles
+// Duration
 // ---------------------------------------------------------------------------
 
-const styles = StyleSheet.create({
-  row: {
-    flexDirection: 'row',
-    flexWrap: 'wrap',
-    minHeight: 30,
-  },
-  word: {
-    fontSize: CONFIG.fontSize,
-    fontWeight: CONFIG.fontWeight,
-    color: CONFIG.color,
-  },
-  emphasisWeight: {
-    fontWeight: '800' as const,
-  },
-});
+/** Pass the same `emphasis` as the component to include the last pop. */
+export function getSkewPopDuration(text: string, options?: SkewPopDurationOptions): number {
+  return getSpecDuration(SKEW_POP_SPEC, text, options);
+}
 
 export default SkewPop;
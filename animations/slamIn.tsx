@@ -9,153 +9,57 @@
  * Stagger: 100ms between words.
  */
 
-import React, { useEffect, useMemo } from 'react';
-import { View, StyleSheet } from 'react-native';
-import Animated, {
-  useSharedValue,
-  useAnimatedStyle,
-  withTiming,
-  withDelay,
-  withSequence,
-  Easing,
-} from 'react-native-reanimated';
+import React from 'react';
+import { getSpecDuration } from './core/spec';
+import type { AnimationSpec } from './core/spec';
+import { SpecAnimation } from './core/specAnimation';
+import type { DurationOptions, TextAnimationProps } from './core/types';
 
 // ---------------------------------------------------------------------------
-// Types
+// Spec
 // ---------------------------------------------------------------------------
 
-interface TextAnimationProps {
-  text: string;
-  isPlaying: boolean;
-  punctuationDelay?: boolean;
-}
-
-// ---------------------------------------------------------------------------
-// Config
-// ---------------------------------------------------------------------------
-
-const CONFIG = {
-  fontSize: 20,
-  fontWeight: '600' as const,
-  color: '#000000',
-  punctPauseLong: 300,
-  punctPauseShort: 150,
+export const SLAM_IN_SPEC: AnimationSpec = {
+  name: 'Slam In',
+  unit: 'word',
+  staggerMs: 100,
+  punctuationDelay: false,
+  tracks: [
+    {
+      type: 'keyframes',
+      property: 'translateX',
+      mirror: true,
+      keyframes: [
+        { at: 0, value: 60 },
+        { at: 180, value: 0, easing: 'snappy' },
+        { at: 260, value: 5, easing: 'gentle' },
+        { at: 410, value: 0, easing: 'gentle' },
+      ],
+    },
+    { type: 'tween', property: 'opacity', from: 0, to: 1, durationMs: 100 },
+  ],
+  exit: {
+    staggerMs: 60,
+    durationMs: 200,
+    easing: 'smoothIn',
+    offsets: { translateX: -60 },
+  },
 };
 
-// ---------------------------------------------------------------------------
-// Helpers
-// ---------------------------------------------------------------------------
-
-function splitWords(text: string): string[] {
-  return text.split(' ').filter(w => w.length > 0);
-}
-
-function computeWordDelays(
-  words: string[],
-  staggerMs: number,
-  punctDelay: boolean,
-): number[] {
-  if (!punctDelay) return words.map((_, i) => i * staggerMs);
-  const delays: number[] = [];
-  let cumulative = 0;
-  for (let i = 0; i < words.length; i++) {
-    delays.push(cumulative);
-    cumulative += staggerMs;
-    const last = words[i].slice(-1);
-    if ('.!?'.includes(last)) cumulative += CONFIG.punctPauseLong;
-    else if (last === ',') cumulative += CONFIG.punctPauseShort;
-  }
-  return delays;
-}
-
-// ---------------------------------------------------------------------------
-// Animated Word
-// ---------------------------------------------------------------------------
-
-const { out, poly, quad } = Easing;
-
-function SlamWord({
-  word,
-  delay,
-  isPlaying,
-}: {
-  word: string;
-  delay: number;
-  isPlaying: boolean;
-}) {
-  const translateX = useSharedValue(60);
-  const opacity = useSharedValue(0);
-
-  useEffect(() => {
-    if (isPlaying) {
-      translateX.value = 60;
-      opacity.value = 0;
-
-      translateX.value = withDelay(
-        delay,
-        withSequence(
-          withTiming(0, { duration: 180, easing: out(poly(5)) }),
-          withTiming(5, { duration: 80, easing: out(quad) }),
-          withTiming(0, { duration: 150, easing: out(quad) }),
-        ),
-      );
-
-      opacity.value = withDelay(delay, withTiming(1, { duration: 100 }));
-    } else {
-      translateX.value = 60;
-      opacity.value = 0;
-    }
-  }, [isPlaying, delay]);
-
-  const animatedStyle = useAnimatedStyle(() => ({
-    transform: [{ translateX: translateX.value }],
-    opacity: opacity.value,
-  }));
-
-  return (
-    <Animated.Text style={[styles.word, animatedStyle]}>
-      {word}{' '}
-    </Animated.Text>
-  );
-}
-
 // ---------------------------------------------------------------------------
 // Component
 // ---------------------------------------------------------------------------
 
-export function SlamIn({ text, isPlaying, punctuationDelay = false }: TextAnimationProps) {
-  const words = useMemo(() => splitWords(text), [text]);
-  const delays = useMemo(() => computeWordDelays(words, 100, punctuationDelay), [words, punctuationDelay]);
-
-  return (
-    <View style={styles.row}>
-      {words.map((word, i) => (
-        <SlamWord
-          key={`${word}-${i}`}
-          word={word}
-          delay={delays[i]}
-          isPlaying={isPlaying}
-        />
-      ))}
-    </View>
-  );
+export function SlamIn(props: TextAnimationProps) {
+  return <SpecAnimation {...props} spec={SLAM_IN_SPEC} />;
 }
 
 // ---------------------------------------------------------------------------
-// Styles
+// Duration
 // ---------------------------------------------------------------------------
 
-const styles = StyleSheet.create({
-  row: {
-    flexDirection: 'row',
-    flexWrap: 'wrap',
-    minHeight: 30,
-  },
-  word: {
-    fontSize: CONFIG.fontSize,
-    fontWeight: CONFIG.fontWeight,
-    color: CONFIG.color,
-  },
-});
+export function getSlamInDuration(text: string, options?: DurationOptions): number {
+  return getSpecDuration(SLAM_IN_SPEC, text, options);
+}
 
 export default SlamIn;
@@ -1,153 +1,59 @@
 /**
  * Typewriter — Characters appear one by one with blinking cursor
  *
- * Uses useState + setTimeout to reveal characters sequentially (80ms per char).
- * Punctuation delays: .!? adds punctPauseLong, comma adds punctPauseShort.
+ * Reveals characters sequentially (80ms per char) as the playback clock
+ * passes each character's start in the shared timeline. Characters are
+ * grapheme clusters, so emoji and accents are typed as a single keystroke.
+ * Punctuation delays: .!? adds punctPauseLong, comma adds punctPauseShort;
+ * the pause waits for a closing quote or the rest of an ellipsis.
  * Cursor blinks via withRepeat + withSequence on opacity.
+ * The custom exit backspaces from the end with a solid cursor.
  */
 
-import React, { useEffect, useState, useRef } from 'react';
-import { View, Text, StyleSheet } from 'react-native';
-import Animated, {
-  useSharedValue,
-  useAnimatedStyle,
-  withRepeat,
-  withSequence,
-  withTiming,
-  cancelAnimation,
-} from 'react-native-reanimated';
-
-// ---------------------------------------------------------------------------
-// Types
-// ---------------------------------------------------------------------------
-
-interface TextAnimationProps {
-  text: string;
-  isPlaying: boolean;
-  punctuationDelay?: boolean;
-}
-
-// ---------------------------------------------------------------------------
-// Config
-// ---------------------------------------------------------------------------
-
-const CONFIG = {
-  fontSize: 20,
-  fontWeight: '600' as const,
-  color: '#000000',
-  punctPauseLong: 300,
-  punctPauseShort: 150,
+import React from 'react';
+import { getSpecDuration } from './core/spec';
+import type { AnimationSpec } from './core/spec';
+import { SpecAnimation } from './core/specAnimation';
+import type { DurationOptions, TextAnimationProps } from './core/types';
+
+// ---------------------------------------------------------------------------
+// Spec
+// ---------------------------------------------------------------------------
+
+export const TYPEWRITER_SPEC: AnimationSpec = {
+  name: 'Typewriter',
+  unit: 'char',
+  staggerMs: 80,
+  unitDurationMs: 0,
+  offsetMs: 80,
+  punctuationDelay: false,
+  reveal: 'type',
+  cursor: { char: '|', blinkMs: 400 },
+  tracks: [],
+  // Backspace one character every 30ms.
+  exit: {
+    staggerMs: 30,
+    durationMs: 0,
+    offsetMs: 30,
+  },
+  // With reduced motion the full text appears at once, without a cursor.
+  reducedMotion: { fadeMs: 0 },
 };
 
 // ---------------------------------------------------------------------------
 // Component
 // ---------------------------------------------------------------------------
 
-export function Typewriter({ text, isPlaying, punctuationDelay = false }: TextAnimationProps) {
-  const [visibleChars, setVisibleChars] = useState(0);
-  const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const cursorOpacity = useSharedValue(1);
-
-  // Cursor blink
-  useEffect(() => {
-    if (isPlaying) {
-      cursorOpacity.value = withRepeat(
-        withSequence(
-          withTiming(0, { duration: 400 }),
-          withTiming(1, { duration: 400 }),
-        ),
-        -1,
-        true,
-      );
-    } else {
-      cancelAnimation(cursorOpacity);
-      cursorOpacity.value = 0;
-    }
-  }, [isPlaying]);
-
-  // Typing logic
-  useEffect(() => {
-    if (timeoutRef.current) {
-      clearTimeout(timeoutRef.current);
-      timeoutRef.current = null;
-    }
-
-    if (!isPlaying) {
-      setVisibleChars(0);
-      return;
-    }
-
-    setVisibleChars(0);
-
-    let index = 0;
-
-    function typeNext() {
-      if (index >= text.length) return;
-
-      index++;
-      setVisibleChars(index);
-
-      if (index >= text.length) return;
-
-      let delay = 80;
-
-      if (punctuationDelay) {
-        const justTyped = text[index - 1];
-        if ('.!?'.includes(justTyped)) {
-          delay += CONFIG.punctPauseLong;
-        } else if (justTyped === ',') {
-          delay += CONFIG.punctPauseShort;
-        }
-      }
-
-      timeoutRef.current = setTimeout(typeNext, delay);
-    }
-
-    timeoutRef.current = setTimeout(typeNext, 80);
-
-    return () => {
-      if (timeoutRef.current) {
-        clearTimeout(timeoutRef.current);
-        timeoutRef.current = null;
-      }
-    };
-  }, [isPlaying, text, punctuationDelay]);
-
-  const cursorStyle = useAnimatedStyle(() => ({
-    opacity: cursorOpacity.value,
-  }));
-
-  return (
-    <View style={styles.typewriterRow}>
-      <Text style={styles.line}>{text.slice(0, visibleChars)}</Text>
-      {isPlaying && (
-        <Animated.Text style={[styles.cursor, cursorStyle]}>|</Animated.Text>
-      )}
-    </View>
-  );
+export function Typewriter(props: TextAnimationProps) {
+  return <SpecAnimation {...props} spec={TYPEWRITER_SPEC} />;
 }
 
 // ---------------------------------------------------------------------------
-// Styles
+// Duration
 // ---------------------------------------------------------------------------
 
-const styles = StyleSheet.create({
-  typewriterRow: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    minHeight: 30,
-  },
-  line: {
-    fontSize: CONFIG.fontSize,
-    fontWeight: CONFIG.fontWeight,
-    color: CONFIG.color,
-  },
-  cursor: {
-    fontSize: CONFIG.fontSize,
-    fontWeight: '300' as const,
-    color: CONFIG.color,
-    marginLeft: -1,
-  },
-});
+export function getTypewriterDuration(text: string, options?: DurationOptions): number {
+  return getSpecDuration(TYPEWRITER_SPEC, text, options);
+}
 
 export default Typewriter;